@@ -0,0 +1,18 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+	preset: 'ts-jest',
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	// ts first, so '../main' is main.ts and not the main.js bundle a build leaves in the root
+	moduleFileExtensions: ['ts', 'js', 'json'],
+	// The plugin logs every failed request, the tests provoke plenty of those
+	silent: true,
+	// obsidian only ships type definitions, the tests run against a small stand-in
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/tests/obsidianStub.ts',
+	},
+	transform: {
+		// The plugin imports no CommonJS default exports, esModuleInterop isn't needed
+		'^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: ['TS151001'] } }],
+	},
+};
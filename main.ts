@@ -1,6 +1,6 @@
-import { Plugin, WorkspaceLeaf, Notice, ItemView, moment } from 'obsidian'; // Note: Removed moment from here
-import { SolidTimeSettingTab, SolidTimeSettings, DEFAULT_SETTINGS } from './src/settings';
-import { SolidTimeApi } from './src/api';
+import { Plugin, WorkspaceLeaf, Notice, ItemView, ObsidianProtocolData, moment } from 'obsidian'; // Note: Removed moment from here
+import { SolidTimeSettingTab, SolidTimeSettings, DEFAULT_SETTINGS, TimerPreset } from './src/settings';
+import { SolidTimeApi, RetryOptions, DEFAULT_RETRY_OPTIONS } from './src/api';
 import {
     TimeEntryResource,
     ProjectResource,
@@ -9,31 +9,115 @@ import {
     TagStoreRequest,
     TimeEntryStartPayload,
     TimeEntryStopPayload,
+    TimeEntryStorePayload,
+    TimeEntryUpdatePayload,
     PersonalMembershipResource,
     MemberResource,
-    UserResource
+    UserResource,
+    ClientResource,
+    OrganizationResource,
+    ProjectStoreRequest
 } from './src/types';
-import { StartTimerModal } from './src/modals';
+import { StartTimerModal, TimeEntryModal, TimeEntrySuggestModal, ConfirmModal, TimeEntryFormValues, CreateProjectModal, ProjectSuggestOptions, TaskSuggestOptions, PendingActionsModal, OrganizationSuggestModal, IdleModal, StartTimeModal, PresetSuggestModal, SplitTimerModal, SplitPart } from './src/modals';
 import { SolidTimeView, SOLIDTIME_VIEW_TYPE } from './src/view';
+import { nowApiTimestamp, parseStartInput, toApiTimestamp } from './src/time';
+import { SolidTimeAuthError, SolidTimeNetworkError, SolidTimeNotFoundError, SolidTimeRateLimitError, SolidTimeValidationError, describeError, isTransientError } from './src/errors';
+import { CircuitBreaker } from './src/circuitBreaker';
+import { OfflineQueue, PendingAction, ReplayResult, TimeEntryChanges, OFFLINE_ENTRY_PREFIX, createActionId, isOfflineEntryId } from './src/offlineQueue';
+import { OrganizationCache } from './src/orgCache';
+import { IdleMonitor } from './src/idleMonitor';
+import { PollScheduler } from './src/pollScheduler';
+import { DATA_REFRESHED_EVENT, SolidTimePublicApi, createPublicApi, triggerTimerEvents } from './src/publicApi';
+import { TimerLimit, getPassedTimerLimit } from './src/timerLimit';
+import { TIMER_LINK_HANDLER, getTimerLinkAction, resolveTimerLinkPreset, resolveTimerLinkTarget } from './src/timerLink';
+import { FocusSession } from './src/focusSession';
+import { BillableRate, calculateEarnings, canSeeBillableRates, formatMoney, resolveBillableRate } from './src/billing';
+import { ApiTokenInfo, daysUntil, decodeTokenClaims, explainAuthError, findCurrentToken, getTokenExpiry, isTokenExpired } from './src/apiToken';
+
+// Pause status polling after this many consecutive failures
+const POLL_FAILURE_THRESHOLD = 5;
+const POLL_PAUSE_MS = 60 * 1000;
+const POLL_MAX_PAUSE_MS = 15 * 60 * 1000;
+
+// What startTimer/switchTimer start
+interface TimerOptions {
+    description: string | null;
+    projectId: string | null;
+    taskId: string | null;
+    tagIds: string[];
+    billable: boolean;
+    start?: string; // ISO 8601 UTC, defaults to now
+    organizationId?: string; // Defaults to the project's organization, else the selected one
+}
+
+// A focus boundary handled later than this (e.g. after sleep) starts the next phase from now
+const FOCUS_LATE_MS = 60 * 1000;
+
+// User activity that ends an idle period
+const ACTIVITY_EVENTS: (keyof DocumentEventMap)[] = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'];
 
 
 export default class SolidTimePlugin extends Plugin {
     settings: SolidTimeSettings;
     api: SolidTimeApi | null = null;
+    publicApi: SolidTimePublicApi; // For other plugins and scripts, see src/publicApi.ts
+    private currentTimeEntry: TimeEntryResource | null = null; // See activeTimeEntry
     statusBarItemEl: HTMLElement | null = null;
-    activeTimeEntry: TimeEntryResource | null = null;
-    statusIntervalId: number | null = null;
+    lastTimeEntry: TimeEntryResource | null = null; // Most recent finished entry, offered for continuing
+    statusPollTimeoutId: number | null = null; // Next server check, see scheduleStatusPoll
+    pollScheduler = new PollScheduler();
     fetchIntervalId: number | null = null;
 
-    // Data caches
-    projects: ProjectResource[] = [];
-    tasks: TaskResource[] = [];
-    tags: TagResource[] = [];
+    // Background polling health
+    pollBreaker = new CircuitBreaker(POLL_FAILURE_THRESHOLD, POLL_PAUSE_MS, POLL_MAX_PAUSE_MS);
+    connectionIssue: string | null = null; // e.g. "Offline", set while the last poll failed
+
+    // Start/stop/update actions waiting for the server, persisted in the plugin data
+    offlineQueue: OfflineQueue;
+
+    // Idle detection while a timer runs
+    idleMonitor = new IdleMonitor();
+    idlePromptOpen = false;
+
+    // Forgotten timer guard, see checkTimerLimits
+    private timerLimitNotice: { notice: Notice; entryId: string } | null = null;
+    private timerLimitHandled: string | null = null; // "<entry id>@<limit>" already asked about
+
+    // Command IDs registered for the current presets, see registerPresetCommands
+    private presetCommandIds: string[] = [];
+
+    // Pomodoro style focus session, null when none is running
+    focusSession: FocusSession | null = null;
+    private handlingFocusBoundary = false;
+
+    // Data caches, kept per organization
+    orgCache = new OrganizationCache();
+    memberships: PersonalMembershipResource[] = [];
     currentUser: UserResource | null = null;
+    apiTokenInfo: ApiTokenInfo | null = null; // Metadata of the configured API token, see loadApiTokenInfo
+
+    // The selected organization's lists
+    get projects(): ProjectResource[] { return this.orgCache.get(this.settings.selectedOrganizationId).projects; }
+    get tasks(): TaskResource[] { return this.orgCache.get(this.settings.selectedOrganizationId).tasks; }
+    get tags(): TagResource[] { return this.orgCache.get(this.settings.selectedOrganizationId).tags; }
+    get clients(): ClientResource[] { return this.orgCache.get(this.settings.selectedOrganizationId).clients; }
+
 
+    // The running entry. Every change goes through here, so the solidtime:timer-* workspace events
+    // fire whether we changed the timer or polling noticed a change made elsewhere.
+    get activeTimeEntry(): TimeEntryResource | null {
+        return this.currentTimeEntry;
+    }
+
+    set activeTimeEntry(entry: TimeEntryResource | null) {
+        const previous = this.currentTimeEntry;
+        this.currentTimeEntry = entry;
+        triggerTimerEvents(this.app.workspace, previous, entry);
+    }
 
     async onload() {
         await this.loadSettings();
+        this.publicApi = createPublicApi(this);
 
         // --- View Registration ---
         this.registerView(
@@ -58,14 +142,17 @@ export default class SolidTimePlugin extends Plugin {
             } catch (e) {
                 console.error("SolidTime: Failed to fetch current user on load", e);
                 if (this.settings.apiKey && this.settings.apiBaseUrl) {
-                    new Notice("SolidTime: Could not verify user. Check API key/URL.");
+                    this.notifyError("Could not verify user", e);
                 }
             }
+            await this.loadApiTokenInfo();
         }
 
         if (this.checkSettingsAndApi(false)) {
-            await this.loadSolidTimeData();
+            await this.loadMemberships();
+            await this.loadAllOrganizationsData();
             await this.updateStatus();
+            await this.loadLastTimeEntry();
             this.setupIntervals();
         } else {
             this.statusBarItemEl.setText('SolidTime: Check Settings');
@@ -106,6 +193,124 @@ export default class SolidTimePlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'stop-timer-complete-task',
+            name: 'Stop current timer and complete its task',
+            callback: () => {
+                this.stopCurrentTimer({ completeTask: true });
+            },
+        });
+
+        this.addCommand({
+            id: 'complete-current-task',
+            name: 'Complete current task',
+            callback: () => {
+                if (!this.checkSettingsAndApi()) return;
+                this.completeCurrentTask();
+            },
+        });
+
+        this.addCommand({
+            id: 'add-time-entry',
+            name: 'Add manual time entry',
+            callback: () => {
+                if (!this.checkSettingsAndApi()) return;
+                new TimeEntryModal(this.app, this, null, (values) => this.createManualTimeEntry(values)).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'switch-timer',
+            name: 'Switch timer (stop the current one and start a new one)',
+            callback: () => {
+                if (!this.checkSettingsAndApi()) return;
+                new StartTimerModal(this.app, this).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'split-timer',
+            name: 'Split current timer',
+            callback: () => {
+                if (!this.checkSettingsAndApi()) return;
+                if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is running."); return; }
+                new SplitTimerModal(this.app, this, this.activeTimeEntry).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'adjust-timer-start',
+            name: 'Adjust start time of the current timer',
+            callback: () => {
+                if (!this.checkSettingsAndApi()) return;
+                if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is running."); return; }
+                new StartTimeModal(this.app, this.activeTimeEntry, input => this.adjustActiveTimerStart(input)).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'continue-last-entry',
+            name: 'Continue last time entry',
+            callback: () => this.continueLastTimeEntry(),
+        });
+
+        this.addCommand({
+            id: 'restart-time-entry',
+            name: 'Restart a recent time entry',
+            callback: () => {
+                this.pickRecentTimeEntry((entry) => this.continueTimeEntry(entry));
+            },
+        });
+
+        this.addCommand({
+            id: 'start-preset',
+            name: 'Start a timer preset',
+            callback: () => this.pickPreset(),
+        });
+        this.registerPresetCommands();
+
+        this.addCommand({
+            id: 'edit-time-entry',
+            name: 'Edit a recent time entry',
+            callback: () => {
+                this.pickRecentTimeEntry((entry) => this.openTimeEntryEditor(entry));
+            },
+        });
+
+        this.addCommand({
+            id: 'delete-time-entry',
+            name: 'Delete a recent time entry',
+            callback: () => {
+                this.pickRecentTimeEntry((entry) => this.confirmDeleteTimeEntry(entry));
+            },
+        });
+
+        this.addCommand({
+            id: 'start-focus-session',
+            name: 'Start focus session',
+            callback: () => this.startFocusSession(),
+        });
+
+        this.addCommand({
+            id: 'stop-focus-session',
+            name: 'Stop focus session',
+            checkCallback: (checking: boolean) => {
+                if (!this.focusSession) return false;
+                if (!checking) this.stopFocusSession();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'skip-focus-phase',
+            name: 'Skip to the next focus phase (work/break)',
+            checkCallback: (checking: boolean) => {
+                if (!this.focusSession) return false;
+                if (!checking) this.skipFocusPhase();
+                return true;
+            },
+        });
+
         this.addCommand({
             id: 'show-current-timer',
             name: 'Show current timer details',
@@ -126,11 +331,20 @@ export default class SolidTimePlugin extends Plugin {
                     new Notice("SolidTime: Configure API and select Organization first.");
                     return;
                 }
-                await this.loadSolidTimeData();
+                await this.loadMemberships();
+                await this.loadAllOrganizationsData(true);
                 new Notice("SolidTime data refreshed.");
             },
         });
 
+        this.addCommand({
+            id: 'switch-organization',
+            name: 'Switch organization',
+            callback: () => {
+                this.promptSwitchOrganization();
+            },
+        });
+
         this.addCommand({
             id: 'refresh-user',
             name: 'Refresh user info',
@@ -142,7 +356,7 @@ export default class SolidTimePlugin extends Plugin {
                     new Notice(`SolidTime: User info refreshed (${this.currentUser?.name}).`);
                 } catch (e) {
                     console.error("SolidTime: Failed to refresh user info", e);
-                    new Notice("SolidTime: Failed to refresh user info.");
+                    this.notifyError("Failed to refresh user info", e);
                 }
             },
         });
@@ -155,6 +369,51 @@ export default class SolidTimePlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: 'show-pending-actions',
+            name: 'Show pending offline changes',
+            callback: () => {
+                new PendingActionsModal(this.app, this).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'sync-offline-actions',
+            name: 'Sync offline changes now',
+            callback: async () => {
+                if (!this.checkSettingsAndApi()) return;
+                if (this.offlineQueue.pendingCount === 0) { new Notice("SolidTime: No offline changes waiting to sync."); return; }
+                // A manual sync skips the circuit breaker pause
+                this.pollBreaker.recordSuccess();
+                await this.updateStatus();
+            },
+        });
+
+        // Sync queued offline actions as soon as the system reports connectivity again
+        this.registerDomEvent(window, 'online', () => {
+            if (this.offlineQueue.pendingCount === 0) return;
+            this.pollBreaker.recordSuccess();
+            this.updateStatus();
+        });
+
+        // The local clock for durations and the focus countdown, independent of server polling
+        this.registerInterval(window.setInterval(() => this.tickClock(), 1000));
+
+        // No polling while the window is hidden, catch up as soon as it's visible again
+        this.registerDomEvent(document, 'visibilitychange', () => {
+            if (!document.hidden && this.api && this.settings.selectedOrganizationId) {
+                this.updateStatus();
+            }
+            this.scheduleStatusPoll();
+        });
+
+        ACTIVITY_EVENTS.forEach(type => {
+            this.registerDomEvent(document, type, () => this.onUserActivity(), { passive: true });
+        });
+
+        // obsidian://solidtime?do=start&project=..., see src/timerLink.ts
+        this.registerObsidianProtocolHandler(TIMER_LINK_HANDLER, (params) => this.handleTimerLink(params));
+
         this.addRibbonIcon('clock', 'Open SolidTime tracker', () => {
             this.activateView();
         });
@@ -194,6 +453,7 @@ export default class SolidTimePlugin extends Plugin {
 
     onunload() {
         this.clearTimers();
+        this.hideTimerLimitNotice();
         if (this.statusBarItemEl) {
             this.statusBarItemEl.remove();
         }
@@ -203,8 +463,20 @@ export default class SolidTimePlugin extends Plugin {
         console.log('SolidTime Plugin Unloaded'); // Keep essential lifecycle log
     }
 
-    async loadSettings() { // loadSettings remains the same
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    async loadSettings() {
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        // Mutated in place, so it must not be (or share records with) the defaults' object
+        this.settings.memberIds = Object.keys(this.settings.memberIds || {}).reduce<Record<string, Record<string, string>>>((ids, orgId) => {
+            ids[orgId] = { ...this.settings.memberIds[orgId] };
+            return ids;
+        }, {});
+        // Before the clock was local, one interval drove both the status bar and the server checks
+        if (data && data.statusPollIntervalSeconds === undefined && typeof data.statusBarUpdateIntervalSeconds === 'number') {
+            this.settings.statusPollIntervalSeconds = data.statusBarUpdateIntervalSeconds;
+        }
+        delete (this.settings as Partial<SolidTimeSettings> & { statusBarUpdateIntervalSeconds?: number }).statusBarUpdateIntervalSeconds;
+        this.offlineQueue = new OfflineQueue([...(this.settings.pendingActions || [])], () => this.savePendingActions());
     }
 
     async saveSettings() {
@@ -221,41 +493,117 @@ export default class SolidTimePlugin extends Plugin {
             } catch (e) {
                 console.error("SolidTime: Failed to fetch current user after settings save", e);
                 this.currentUser = null;
-                new Notice("SolidTime: Could not verify user with new settings.");
+                this.notifyError("Could not verify user with new settings", e);
             }
         } else if (!this.api) {
             this.currentUser = null;
         }
+        if (this.api && !this.apiTokenInfo) await this.loadApiTokenInfo();
 
         // Proceed with data load and intervals only if fully configured
         if (this.api && this.settings.selectedOrganizationId) {
+            if (this.memberships.length === 0) await this.loadMemberships();
             await this.loadSolidTimeData();
             await this.updateStatus(); // updateStatus calls updateSolidTimeView
             this.setupIntervals();
         } else {
             this.clearTimers();
-            this.activeTimeEntry = null;
+            this.currentTimeEntry = null; // Unknown from now on, not stopped: no timer events
             if (this.statusBarItemEl) {
                 this.statusBarItemEl.setText('SolidTime: Check settings');
                 this.statusBarItemEl.removeClass('solidtime-active');
                 this.statusBarItemEl.removeAttribute('title');
             }
             // Clear data and update view if config becomes invalid
-            this.projects = []; this.tasks = []; this.tags = [];
+            this.orgCache.clear();
             this.updateSolidTimeView(); // Update view to reflect cleared state/setup needed
         }
     }
 
+    getRetryOptions(): RetryOptions {
+        return {
+            ...DEFAULT_RETRY_OPTIONS,
+            maxRetries: this.settings.requestRetries,
+            baseDelayMs: this.settings.retryBaseDelaySeconds * 1000,
+        };
+    }
+
     setupApi() {
         if (this.settings.apiKey && this.settings.apiBaseUrl) {
             if (!this.api || this.api['apiKey'] !== this.settings.apiKey || this.api['baseUrl'] !== this.settings.apiBaseUrl) {
                 // console.log("SolidTime: Initializing/Updating API client..."); // Removed verbose log
-                this.api = new SolidTimeApi(this.settings.apiKey, this.settings.apiBaseUrl);
+                this.api = new SolidTimeApi(this.settings.apiKey, this.settings.apiBaseUrl, this.getRetryOptions());
+                this.api.onWrite = () => this.boostStatusPolling();
+                // New credentials deserve a fresh start, and may see different organizations
+                this.pollBreaker.recordSuccess();
+                this.connectionIssue = null;
+                this.orgCache.clear();
+                this.memberships = [];
+                this.apiTokenInfo = null;
+            } else {
+                this.api.setRetryOptions(this.getRetryOptions());
             }
         } else {
             // if(this.api) console.log("SolidTime: De-initializing API client due to missing settings."); // Removed verbose log
             this.api = null;
+            this.apiTokenInfo = null;
+        }
+    }
+
+    // The API layer never raises Notices itself, callers report failures through here
+    notifyError(context: string, error: unknown) {
+        new Notice(`SolidTime: ${context}. ${this.describeError(error)}`, 5000);
+    }
+
+    // describeError, with auth failures explained using the token metadata (expired, missing permission)
+    describeError(error: unknown): string {
+        if (error instanceof SolidTimeAuthError) {
+            return explainAuthError(error, this.apiTokenInfo);
+        }
+        return describeError(error);
+    }
+
+    // Loads the configured token's metadata and warns if it expires soon. Failing to load the
+    // token list isn't fatal, the expiry from the token itself is still used.
+    async loadApiTokenInfo() {
+        if (!this.api) return;
+        const claims = decodeTokenClaims(this.settings.apiKey);
+        const info: ApiTokenInfo = { claims: claims, token: null, error: null };
+        try {
+            info.token = findCurrentToken(await this.api.getApiTokens(), claims);
+            if (!info.token) info.error = 'The API key was not found in your token list.';
+        } catch (error) {
+            console.error("SolidTime: Failed to fetch API tokens", error);
+            info.error = this.describeError(error);
         }
+        this.apiTokenInfo = info;
+        await this.checkTokenExpiry();
+    }
+
+    // Warns at most once a day once the token is revoked, expired or about to expire
+    async checkTokenExpiry() {
+        const info = this.apiTokenInfo;
+        const warningDays = this.settings.tokenExpiryWarningDays;
+        if (!info || warningDays <= 0) return;
+        const today = moment().format('YYYY-MM-DD');
+        if (this.settings.lastTokenExpiryWarning === today) return;
+
+        const tokenName = info.token ? `"${info.token.name}"` : 'Your API token';
+        const expiresAt = getTokenExpiry(info);
+        let message: string | null = null;
+        if (info.token?.revoked) {
+            message = `${tokenName} has been revoked.`;
+        } else if (expiresAt && isTokenExpired(info)) {
+            message = `${tokenName} expired on ${moment(expiresAt).format('ll')}.`;
+        } else if (expiresAt && daysUntil(expiresAt) < warningDays) {
+            const days = daysUntil(expiresAt);
+            message = `${tokenName} expires ${days === 0 ? 'today' : `in ${days} day${days === 1 ? '' : 's'}`} (${moment(expiresAt).format('ll')}).`;
+        }
+        if (!message) return;
+
+        new Notice(`SolidTime: ${message} Create a new API token in SolidTime and enter it in the plugin settings.`, 10000);
+        this.settings.lastTokenExpiryWarning = today;
+        await this.saveData(this.settings);
     }
 
     checkSettingsAndApi(showNotice = true): boolean {
@@ -277,41 +625,208 @@ export default class SolidTimePlugin extends Plugin {
     }
 
     clearTimers() {
-        if (this.statusIntervalId) { window.clearInterval(this.statusIntervalId); this.statusIntervalId = null; }
+        if (this.statusPollTimeoutId) { window.clearTimeout(this.statusPollTimeoutId); this.statusPollTimeoutId = null; }
         if (this.fetchIntervalId) { window.clearInterval(this.fetchIntervalId); this.fetchIntervalId = null; }
     }
 
     setupIntervals() {
         this.clearTimers();
-        if (this.settings.statusBarUpdateIntervalSeconds > 0 && this.api) {
-            this.statusIntervalId = window.setInterval(() => this.updateStatus(), this.settings.statusBarUpdateIntervalSeconds * 1000);
-            // console.log(`SolidTime: Status interval set to ${this.settings.statusBarUpdateIntervalSeconds}s`);
-        }
+        this.scheduleStatusPoll();
         if (this.settings.autoFetchIntervalMinutes > 0 && this.api && this.settings.selectedOrganizationId) {
-            this.fetchIntervalId = window.setInterval(() => this.loadSolidTimeData(), this.settings.autoFetchIntervalMinutes * 60 * 1000);
+            this.fetchIntervalId = window.setInterval(() => {
+                // Don't add to the load while status polling is paused after failures
+                if (!this.pollBreaker.isPaused()) this.loadAllOrganizationsData();
+                // Obsidian may stay open for days, keep the expiry warning coming
+                this.checkTokenExpiry();
+            }, this.settings.autoFetchIntervalMinutes * 60 * 1000);
             // console.log(`SolidTime: Fetch interval set to ${this.settings.autoFetchIntervalMinutes}min`);
         }
     }
 
-    async loadSolidTimeData() {
-        if (!this.api || !this.settings.selectedOrganizationId) {
+    // Server checks of the running timer run on a timeout chain, so every check can pick its own delay:
+    // quick after our own changes, slow while the user is away, none while the window is hidden
+    scheduleStatusPoll() {
+        if (this.statusPollTimeoutId) { window.clearTimeout(this.statusPollTimeoutId); this.statusPollTimeoutId = null; }
+        if (!this.api) return;
+        const delay = this.pollScheduler.getDelay(this.settings.statusPollIntervalSeconds * 1000, {
+            hidden: document.hidden,
+            userAway: this.idleMonitor.isAway(),
+        });
+        if (delay === null) return;
+        this.statusPollTimeoutId = window.setTimeout(async () => {
+            this.statusPollTimeoutId = null;
+            await this.updateStatus();
+            // Unless something rescheduled meanwhile (e.g. a write boosted polling)
+            if (this.statusPollTimeoutId === null) this.scheduleStatusPoll();
+        }, delay);
+    }
+
+    // Called by the API client after every successful write
+    boostStatusPolling() {
+        const wasBoosted = this.pollScheduler.isBoosted();
+        this.pollScheduler.boost();
+        if (!wasBoosted) this.scheduleStatusPoll();
+    }
+
+    // Loads projects/tasks/tags/clients of one organization (the selected one by default) into the cache.
+    // refreshMember also refetches the own member resource, see loadBillingData.
+    async loadSolidTimeData(orgId: string = this.settings.selectedOrganizationId, refreshMember = false) {
+        if (!this.api || !orgId) {
             // console.log("SolidTime: Cannot fetch data, API or Organization not configured.");
-            this.projects = []; this.tasks = []; this.tags = [];
             return;
         }
-        // console.log("SolidTime: Fetching data for org:", this.settings.selectedOrganizationId);
+        // console.log("SolidTime: Fetching data for org:", orgId);
         try {
-            const [projects, tasks, tags] = await Promise.all([
-                this.api.getProjects(this.settings.selectedOrganizationId),
-                this.api.getTasks(this.settings.selectedOrganizationId),
-                this.api.getTags(this.settings.selectedOrganizationId)
+            const [projects, tasks, tags, clients, billing] = await Promise.all([
+                this.api.getProjects(orgId),
+                this.api.getTasks(orgId, null, this.settings.showDoneTasks ? 'all' : 'false'),
+                this.api.getTags(orgId),
+                this.loadClients(orgId),
+                this.loadBillingData(orgId, refreshMember)
             ]);
-            this.projects = projects || []; this.tasks = tasks || []; this.tags = tags || [];
-            // console.log(`SolidTime: Fetched ${this.projects.length} projects, ${this.tasks.length} tasks, ${this.tags.length} tags.`);
+            this.orgCache.set(orgId, {
+                projects: projects || [],
+                tasks: tasks || [],
+                tags: tags || [],
+                clients: clients,
+                organization: billing.organization,
+                member: billing.member,
+            });
+            this.app.workspace.trigger(DATA_REFRESHED_EVENT, orgId);
+            // console.log(`SolidTime: Fetched ${projects.length} projects, ${tasks.length} tasks, ${tags.length} tags.`);
+        } catch (error) {
+            console.error(`SolidTime: Failed to fetch data for organization ${orgId}`, error);
+            // Keep the cached lists through a short outage, the next fetch will refresh them
+            if (isTransientError(error)) return;
+            this.orgCache.clear(orgId);
+            this.notifyError(`Failed to fetch projects/tasks/tags for ${this.getOrganizationName(orgId) || 'organization'}`, error);
+        }
+    }
+
+    // Clients only group the project pickers. Never throws: some roles (and older servers) can't list
+    // them, which shouldn't cost the projects, so a failed fetch keeps what was cached before.
+    async loadClients(orgId: string): Promise<ClientResource[]> {
+        if (!this.api) return this.orgCache.get(orgId).clients;
+        try {
+            const clients = await this.api.getClients(orgId);
+            return (clients || []).sort((a, b) => a.name.localeCompare(b.name));
+        } catch (error) {
+            console.error(`SolidTime: Failed to fetch clients of organization ${orgId}`, error);
+            return this.orgCache.get(orgId).clients;
+        }
+    }
+
+    // Organization and own member resource, only used for billable rates. Never throws, a failed
+    // fetch keeps what was cached before (or just hides money values). There's no endpoint for a
+    // single member, so the member list is only paged through while the own member isn't cached
+    // yet, or on a manual refresh (refreshMember).
+    async loadBillingData(orgId: string, refreshMember = false): Promise<{ organization: OrganizationResource | null; member: MemberResource | null }> {
+        const cached = this.orgCache.get(orgId);
+        let organization = cached.organization;
+        let member = cached.member;
+        if (!this.api) return { organization, member };
+        try {
+            organization = await this.api.getOrganization(orgId);
+        } catch (error) {
+            console.error(`SolidTime: Failed to fetch organization ${orgId}`, error);
+        }
+        // Employees aren't allowed to list members, so their own rate stays unknown
+        if (this.getMembershipRole(orgId) !== 'employee' && (!member || refreshMember)) {
+            try {
+                const memberId = this.getCachedMemberId(orgId);
+                const members = await this.api.getMembers(orgId);
+                member = members.find(m => m.id === memberId || (!!this.currentUser && m.user_id === this.currentUser.id)) || null;
+            } catch (error) {
+                console.error(`SolidTime: Failed to fetch members of organization ${orgId}`, error);
+            }
+        }
+        return { organization, member };
+    }
+
+    // The selected organization first, so its pickers are ready as early as possible
+    async loadAllOrganizationsData(refreshMember = false) {
+        const selected = this.settings.selectedOrganizationId;
+        await this.loadSolidTimeData(selected, refreshMember);
+        for (const membership of this.memberships) {
+            const orgId = membership.organization?.id;
+            if (orgId && orgId !== selected) await this.loadSolidTimeData(orgId, refreshMember);
+        }
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+    }
+
+    // --- Organizations ---
+
+    async loadMemberships() {
+        if (!this.api) return;
+        try {
+            this.memberships = await this.api.getMemberships();
+            await this.rememberMembershipIds();
         } catch (error) {
-            console.error("SolidTime: Failed to fetch data", error);
-            this.projects = []; this.tasks = []; this.tags = [];
+            // Keep the previous list, switching still works with it
+            console.error("SolidTime: Failed to fetch memberships", error);
+        }
+    }
+
+    getOrganizationName(orgId: string | null | undefined): string | null {
+        if (!orgId) return null;
+        return this.memberships.find(m => m.organization?.id === orgId)?.organization.name || null;
+    }
+
+    getMembershipRole(orgId: string | null | undefined): string | null {
+        if (!orgId) return null;
+        return this.memberships.find(m => m.organization?.id === orgId)?.role || null;
+    }
+
+    hasMultipleOrganizations(): boolean {
+        return this.memberships.length > 1;
+    }
+
+    async promptSwitchOrganization() {
+        if (!this.api) { new Notice("SolidTime: API not configured."); return; }
+        await this.loadMemberships();
+        if (this.memberships.length === 0) { new Notice("SolidTime: No organizations found for this API key."); return; }
+        new OrganizationSuggestModal(
+            this.app,
+            this.memberships,
+            this.settings.selectedOrganizationId,
+            (membership) => this.switchOrganization(membership.organization.id)
+        ).open();
+    }
+
+    // Makes orgId the selected organization. A running timer in another organization keeps running.
+    async switchOrganization(orgId: string) {
+        const wasConfigured = !!this.settings.selectedOrganizationId;
+        const membership = this.memberships.find(m => m.organization?.id === orgId);
+        this.settings.selectedOrganizationId = orgId;
+        this.settings.selectedMemberId = membership ? membership.id : '';
+
+        if (!wasConfigured || !orgId) {
+            // First selection (or cleared): run the full setup
+            await this.saveSettings();
+            return;
         }
+        // Only the selection changed, the other organizations' caches stay as they are
+        await this.saveData(this.settings);
+        if (!this.orgCache.isLoaded(orgId)) {
+            await this.loadSolidTimeData(orgId);
+        }
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+        new Notice(`SolidTime: Switched to ${membership?.organization.name || 'organization'}.`);
+    }
+
+    // Projects offered by the pickers. With orgId only that organization's (e.g. for the running timer).
+    getPickerProjects(orgId?: string): ProjectResource[] {
+        if (orgId) return this.orgCache.get(orgId).projects;
+        if (!this.settings.showAllOrganizationsInPickers || !this.hasMultipleOrganizations()) return this.projects;
+        return this.memberships.reduce<ProjectResource[]>((all, membership) =>
+            all.concat(this.orgCache.get(membership.organization.id).projects), []);
+    }
+
+    getTasksForProject(projectId: string): TaskResource[] {
+        const orgId = this.orgCache.getOrgIdForProject(projectId) || this.settings.selectedOrganizationId;
+        return this.orgCache.get(orgId).tasks.filter(task => task.project_id === projectId);
     }
 
     async updateActiveTimerDetails(updates: {
@@ -320,14 +835,11 @@ export default class SolidTimePlugin extends Plugin {
         taskId?: string | null; // Keep taskId if you might support updating it later
         tagIds?: string[];
         billable?: boolean;
+        start?: string; // ISO 8601 UTC, validated by adjustActiveTimerStart
     }) {
         // console.log("Attempting to update timer with:", updates); // Debug log
 
         if (!this.api) { new Notice("SolidTime: API not configured."); return; }
-        if (!this.currentUser) {
-            try { this.currentUser = await this.api.getMe(); }
-            catch (e) { new Notice("Error: Could not verify current user."); return; }
-        }
         if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is running to update."); return; }
         if (!this.activeTimeEntry.organization_id || !this.activeTimeEntry.start) {
             new Notice("Error: Active entry data incomplete."); return;
@@ -335,28 +847,30 @@ export default class SolidTimePlugin extends Plugin {
 
         const entryToUpdate = this.activeTimeEntry;
         const orgIdForEntry = entryToUpdate.organization_id;
-        let correctMemberId: string | null = null;
 
-        // Fetch correct member ID (necessary for the PUT request)
-        try {
-            const members = await this.api!.getMembers(orgIdForEntry);
-            const currentMembership = members.find(member => member.user_id === this.currentUser!.id);
-            if (currentMembership) { correctMemberId = currentMembership.id; }
-            else { new Notice(`Error: User not found in org ${orgIdForEntry}.`); return; }
-        } catch (error) { new Notice("Error fetching members."); return; }
-        if (!correctMemberId) { new Notice("Error determining Member ID."); return; }
-
-        // Construct payload by merging existing entry with updates
-        // IMPORTANT: DO NOT include 'end' field unless stopping. DO NOT include 'start'.
+        const changes: TimeEntryChanges = {};
+        if ('billable' in updates) changes.billable = updates.billable;
+        if ('projectId' in updates) changes.project_id = updates.projectId;
+        if ('taskId' in updates) changes.task_id = updates.taskId;
+        if ('description' in updates) changes.description = updates.description;
+        if ('tagIds' in updates) changes.tags = updates.tagIds;
+        if ('start' in updates) changes.start = updates.start;
+
+        if (isOfflineEntryId(entryToUpdate.id)) {
+            await this.queueOfflineUpdate(entryToUpdate, changes);
+            return;
+        }
+
+        // Construct payload by merging existing entry with updates, withMemberId adds the member ID
+        // IMPORTANT: DO NOT include 'end' field unless stopping. 'start' only when it's being moved.
         const payloadToSend = {
-            member_id: correctMemberId,
-            // start: entryToUpdate.start, // NO START
+            ...('start' in changes ? { start: changes.start } : {}),
             // end: null,                 // NO END
-            billable: 'billable' in updates ? updates.billable : entryToUpdate.billable,
-            project_id: 'projectId' in updates ? updates.projectId : entryToUpdate.project_id,
-            task_id: 'taskId' in updates ? updates.taskId : entryToUpdate.task_id, // Keep task if available
-            description: 'description' in updates ? updates.description : entryToUpdate.description,
-            tags: 'tagIds' in updates ? updates.tagIds : entryToUpdate.tags,
+            billable: 'billable' in changes ? changes.billable : entryToUpdate.billable,
+            project_id: 'project_id' in changes ? changes.project_id : entryToUpdate.project_id,
+            task_id: 'task_id' in changes ? changes.task_id : entryToUpdate.task_id, // Keep task if available
+            description: 'description' in changes ? changes.description : entryToUpdate.description,
+            tags: 'tags' in changes ? changes.tags : entryToUpdate.tags,
         };
 
         // console.log("Update Payload:", JSON.stringify(payloadToSend, null, 2));
@@ -364,7 +878,8 @@ export default class SolidTimePlugin extends Plugin {
         try {
             new Notice("SolidTime: Updating timer...");
             // Use the same PUT endpoint (stopTimeEntry internally calls PUT)
-            const updatedEntry = await this.api!.stopTimeEntry(orgIdForEntry, entryToUpdate.id, payloadToSend as TimeEntryStopPayload); // Cast is okay
+            const updatedEntry = await this.withMemberId(orgIdForEntry, memberId =>
+                this.api!.stopTimeEntry(orgIdForEntry, entryToUpdate.id, { ...payloadToSend, member_id: memberId } as TimeEntryStopPayload)); // Cast is okay
 
             // IMPORTANT: Update local state with the response from the server
             this.activeTimeEntry = updatedEntry;
@@ -376,98 +891,984 @@ export default class SolidTimePlugin extends Plugin {
 
         } catch (error) {
             console.error("SolidTime: Failed to update timer", error);
-            new Notice("SolidTime: Failed to update timer. Check console.");
+            if (isTransientError(error)) { await this.queueOfflineUpdate(entryToUpdate, changes); return; }
+            this.notifyError("Failed to update timer", error);
             // Consider refreshing status fully on failure
             await this.updateStatus();
         }
     }
 
-    async createTag(tagName: string): Promise<TagResource | null> {
-        if (!this.checkSettingsAndApi()) return null;
-        if (!this.settings.selectedOrganizationId) {
-            new Notice("No organization selected in settings.");
-            return null;
+    // --- Member IDs ---
+
+    // Member ID of the current user in the given organization (needed for every time entry write).
+    // Answered from the persisted map, which memberships fill in. Paging through all members of
+    // the organization is the last resort.
+    async getMemberIdForOrg(orgId: string): Promise<string> {
+        if (!this.api) throw new Error("SolidTime API not configured.");
+        if (!this.currentUser) {
+            this.currentUser = await this.api.getMe();
         }
-        try {
-            const newTag = await this.api!.createTag(this.settings.selectedOrganizationId, tagName);
-            // Add to local cache immediately for faster UI update in modal
-            this.tags.push(newTag);
-            this.tags.sort((a, b) => a.name.localeCompare(b.name)); // Keep sorted
-            return newTag;
-        } catch (error) {
-            console.error("Plugin: Failed to create tag via API", error);
-            // Notice might be shown by API layer
-            return null;
+        const userId = this.currentUser.id;
+        const known = this.getCachedMemberId(orgId);
+        if (known) return known;
+
+        await this.loadMemberships();
+        const fromMemberships = this.settings.memberIds[orgId]?.[userId];
+        if (fromMemberships) return fromMemberships;
+
+        const members = await this.api.getMembers(orgId);
+        const currentMembership = members.find(member => member.user_id === userId);
+        if (!currentMembership) {
+            throw new Error(`Your user was not found in organization ${orgId}.`);
         }
+        await this.rememberMemberId(orgId, userId, currentMembership.id);
+        return currentMembership.id;
     }
 
-    async updateStatus() { // updateStatus logic remains the same, relies on renderStatusBar
-        if (!this.api) {
-            if (this.statusBarItemEl && this.statusBarItemEl.getText().startsWith('⏱️')) {
-                this.statusBarItemEl.setText('SolidTime: Check Settings');
-                this.statusBarItemEl.removeClass('solidtime-active');
-                this.statusBarItemEl.removeAttribute('title');
-            }
-            this.activeTimeEntry = null;
-            return;
-        }
+    getCachedMemberId(orgId: string): string | null {
+        if (!this.currentUser) return null;
+        return this.settings.memberIds[orgId]?.[this.currentUser.id] || null;
+    }
+
+    // Runs a time entry write with the cached member ID. If SolidTime rejects that ID (e.g. the
+    // membership was re-created), it is looked up again and the write retried once.
+    async withMemberId<T>(orgId: string, write: (memberId: string) => Promise<T>): Promise<T> {
+        const memberId = await this.getMemberIdForOrg(orgId);
         try {
-            this.activeTimeEntry = await this.api.getActiveTimeEntry();
-            this.renderStatusBar();
-            this.updateSolidTimeView();
+            return await write(memberId);
         } catch (error) {
-            console.error("SolidTime: Failed to update status", error);
-            if (this.statusBarItemEl) {
-                if (error instanceof Error && (error.message.includes('401') || error.message.includes('403'))) {
-                    this.statusBarItemEl.setText('SolidTime: Auth Error');
-                    new Notice("SolidTime: Authentication error fetching status. Check API Key.");
-                } else { this.statusBarItemEl.setText('SolidTime: Error'); }
-                this.statusBarItemEl.removeClass('solidtime-active'); this.statusBarItemEl.removeAttribute('title');
-            }
-            this.activeTimeEntry = null;
-            this.updateSolidTimeView();
+            if (!(error instanceof SolidTimeValidationError) || !error.fieldErrors['member_id']) throw error;
+            console.warn(`SolidTime: Cached member ID for organization ${orgId} was rejected, looking it up again.`);
+            await this.forgetMemberId(orgId);
+            return write(await this.getMemberIdForOrg(orgId));
         }
     }
 
-    renderStatusBar() {
-        if (!this.statusBarItemEl) return;
+    // The membership ID is the member ID, so memberships give us the current user's for every organization
+    async rememberMembershipIds() {
+        if (!this.currentUser) return;
+        const userId = this.currentUser.id;
+        let changed = false;
+        this.memberships.forEach(membership => {
+            const orgId = membership.organization?.id;
+            if (!orgId || this.settings.memberIds[orgId]?.[userId] === membership.id) return;
+            this.settings.memberIds[orgId] = { ...this.settings.memberIds[orgId], [userId]: membership.id };
+            changed = true;
+        });
+        if (changed) await this.saveData(this.settings);
+    }
 
-        if (this.activeTimeEntry && this.activeTimeEntry.start) { // Check if start time exists
-            const startDateTime = moment.utc(this.activeTimeEntry.start);
-            if (!startDateTime.isValid) {
-                console.error("SolidTime: Failed to parse start time for status bar:", this.activeTimeEntry.start);
-                this.statusBarItemEl.setText('SolidTime: Invalid date');
-                this.statusBarItemEl.removeClass('solidtime-active'); // Ensure inactive class state
-                this.statusBarItemEl.removeAttribute('title');
-                return;
-             }
-            const nowDateTime = moment.utc();
-            const duration = nowDateTime.diff(startDateTime);
-            const formattedDuration = this.formatDuration(duration);
+    async rememberMemberId(orgId: string, userId: string, memberId: string) {
+        this.settings.memberIds[orgId] = { ...this.settings.memberIds[orgId], [userId]: memberId };
+        await this.saveData(this.settings);
+    }
 
-            let display = `🟢 ${formattedDuration}`;
-            
-            const project = this.projects.find(p => p.id === this.activeTimeEntry?.project_id);
-            if (project) { display += ` | ${project.name}`; }
-            else if (this.activeTimeEntry.project_id) { display += ` | (Project?)`; }
-            if (this.activeTimeEntry.description) {
-                const desc = this.activeTimeEntry.description.length > 20 ? this.activeTimeEntry.description.substring(0, 18) + '...' : this.activeTimeEntry.description;
-                display += ` - ${desc}`;
-            }
+    async forgetMemberId(orgId: string) {
+        if (!this.currentUser || !this.settings.memberIds[orgId]) return;
+        delete this.settings.memberIds[orgId][this.currentUser.id];
+        if (orgId === this.settings.selectedOrganizationId) {
+            this.settings.selectedMemberId = '';
+        }
+        await this.saveData(this.settings);
+    }
 
-            this.statusBarItemEl.setText(display);
-            this.statusBarItemEl.addClass('solidtime-active');
-            
-            const tooltipProjectName = project?.name || `(ID: ...${this.activeTimeEntry.project_id?.slice(-6) || 'None'})`;
-            
-            const localStartTime = startDateTime.local().format('YYYY-MM-DD HH:mm');
-            this.statusBarItemEl.setAttribute('title', `SolidTime Timer\nDescription: ${this.activeTimeEntry.description || '(None)'}\nProject: ${tooltipProjectName}\nStarted: ${localStartTime}`);
+    // --- Offline Queue ---
+
+    async savePendingActions() {
+        this.settings.pendingActions = this.offlineQueue.actions;
+        await this.saveData(this.settings);
+    }
+
+    async queueOfflineStart(orgId: string, payload: TimeEntryStartPayload): Promise<TimeEntryResource> {
+        const localEntry: TimeEntryResource = {
+            id: OFFLINE_ENTRY_PREFIX + createActionId(),
+            start: payload.start,
+            end: null,
+            duration: null,
+            description: payload.description ?? null,
+            task_id: payload.task_id ?? null,
+            project_id: payload.project_id ?? null,
+            organization_id: orgId,
+            user_id: this.currentUser?.id || '',
+            tags: payload.tags || [],
+            billable: payload.billable,
+        };
+        await this.offlineQueue.enqueue({
+            kind: 'start',
+            id: createActionId(),
+            queuedAt: payload.start,
+            orgId: orgId,
+            status: 'pending',
+            localEntryId: localEntry.id,
+            payload: payload,
+            end: null,
+        });
+        this.activeTimeEntry = localEntry;
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+        new Notice("SolidTime: Offline. Timer started locally, it will be sent once SolidTime is reachable.");
+        return localEntry;
+    }
 
+    async queueOfflineStop(entry: TimeEntryResource, end: string) {
+        const offlineStart = this.offlineQueue.findStartForLocalEntry(entry.id);
+        if (offlineStart) {
+            // Never reached the server: send it as one finished entry later
+            offlineStart.end = end;
+            await this.offlineQueue.save();
         } else {
-            if (this.api && this.settings.selectedOrganizationId) { this.statusBarItemEl.setText('SolidTime'); }
-            else { this.statusBarItemEl.setText('SolidTime: Setup needed'); }
-            this.statusBarItemEl.removeClass('solidtime-active'); this.statusBarItemEl.removeAttribute('title');
+            await this.offlineQueue.enqueue({
+                kind: 'stop',
+                id: createActionId(),
+                queuedAt: end,
+                orgId: entry.organization_id,
+                status: 'pending',
+                entryId: entry.id,
+                end: end,
+                snapshot: entry,
+            });
+        }
+        if (this.activeTimeEntry?.id === entry.id) {
+            this.activeTimeEntry = null;
         }
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+        new Notice("SolidTime: Offline. Timer stopped locally, the stop will be sent once SolidTime is reachable.");
+    }
+
+    async queueOfflineUpdate(entry: TimeEntryResource, changes: TimeEntryChanges) {
+        const offlineStart = this.offlineQueue.findStartForLocalEntry(entry.id);
+        if (offlineStart) {
+            offlineStart.payload = { ...offlineStart.payload, ...changes };
+            await this.offlineQueue.save();
+        } else {
+            await this.offlineQueue.enqueue({
+                kind: 'update',
+                id: createActionId(),
+                queuedAt: nowApiTimestamp(),
+                orgId: entry.organization_id,
+                status: 'pending',
+                entryId: entry.id,
+                changes: changes,
+                snapshot: entry,
+            });
+        }
+        if (this.activeTimeEntry?.id === entry.id) {
+            this.activeTimeEntry = { ...entry, ...changes };
+        }
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+        new Notice("SolidTime: Offline. Change saved locally, it will be sent once SolidTime is reachable.");
+    }
+
+    // Sends queued actions. Throws transient errors (still offline) so callers can back off.
+    async replayOfflineQueue() {
+        if (!this.api || this.offlineQueue.pendingCount === 0) return;
+        const { done, conflicts } = await this.offlineQueue.replay(action => this.replayPendingActionSafely(action, false));
+        if (done > 0) {
+            new Notice(`SolidTime: Synced ${done} offline change${done === 1 ? '' : 's'}.`);
+        }
+        if (conflicts > 0) {
+            new Notice(`SolidTime: ${conflicts} offline change${conflicts === 1 ? '' : 's'} conflict with changes made in SolidTime. Use "Show pending offline changes" to resolve.`, 10000);
+        }
+    }
+
+    // Only the server refusing the change for its current state (entry gone, data no longer valid)
+    // turns into a conflict. Anything else, e.g. being offline or an expired token, propagates and
+    // stops the replay, the actions stay pending until it works again.
+    async replayPendingActionSafely(action: PendingAction, force: boolean): Promise<ReplayResult> {
+        try {
+            return await this.replayPendingAction(action, force);
+        } catch (error) {
+            if (!(error instanceof SolidTimeNotFoundError) && !(error instanceof SolidTimeValidationError)) throw error;
+            console.error("SolidTime: Failed to replay offline action", action, error);
+            return { outcome: 'conflict', reason: this.describeError(error) };
+        }
+    }
+
+    // force = apply even though the server state changed ("Apply anyway")
+    async replayPendingAction(action: PendingAction, force: boolean): Promise<ReplayResult> {
+        const api = this.api!;
+        const active = await api.getActiveTimeEntry();
+
+        if (action.kind === 'start') {
+            // Started offline before the member ID was known: look it up now
+            const withMember = (memberId: string) => ({ ...action.payload, member_id: action.payload.member_id || memberId });
+            if (action.end) {
+                // Started and stopped while offline: log it as a finished entry
+                const end = action.end;
+                await this.withMemberId(action.orgId, memberId => api.createTimeEntry(action.orgId, { ...withMember(memberId), end: end }));
+                return { outcome: 'done' };
+            }
+            if (active && active.start === action.payload.start) {
+                // The original request reached the server after all
+                return { outcome: 'done' };
+            }
+            if (active && !force) {
+                return { outcome: 'conflict', reason: `Another timer ("${active.description || 'no description'}") was started in SolidTime while you were offline.` };
+            }
+            await this.withMemberId(action.orgId, memberId => api.startTimeEntry(action.orgId, withMember(memberId)));
+            return { outcome: 'done' };
+        }
+
+        const isStillRunning = !!active && active.id === action.entryId;
+        if (!isStillRunning && !force) {
+            return { outcome: 'conflict', reason: 'The timer was stopped or deleted in SolidTime while you were offline.' };
+        }
+        // Prefer the server's current values, they may have been edited elsewhere
+        const current = isStillRunning ? active! : action.snapshot;
+
+        if (action.kind === 'stop') {
+            await this.withMemberId(action.orgId, memberId => api.updateTimeEntry(action.orgId, action.entryId, {
+                member_id: memberId,
+                end: action.end,
+                billable: current.billable,
+                project_id: current.project_id,
+                task_id: current.task_id,
+                description: current.description,
+                tags: current.tags,
+            }));
+            return { outcome: 'done' };
+        }
+
+        if (!force) {
+            // Conflict if the server changed a field we also changed, to a different value
+            const changedOnServer = (Object.keys(action.changes) as (keyof TimeEntryChanges)[]).filter(field =>
+                JSON.stringify(current[field]) !== JSON.stringify(action.snapshot[field]) &&
+                JSON.stringify(current[field]) !== JSON.stringify(action.changes[field])
+            );
+            if (changedOnServer.length > 0) {
+                return { outcome: 'conflict', reason: `Also changed in SolidTime while you were offline: ${changedOnServer.join(', ')}.` };
+            }
+        }
+        const merged = { ...current, ...action.changes };
+        await this.withMemberId(action.orgId, memberId => api.updateTimeEntry(action.orgId, action.entryId, {
+            member_id: memberId,
+            start: merged.start,
+            billable: merged.billable,
+            project_id: merged.project_id,
+            task_id: merged.task_id,
+            description: merged.description,
+            tags: merged.tags,
+        }));
+        return { outcome: 'done' };
+    }
+
+    // "Apply anyway" for a conflicting action
+    async forceReplayAction(action: PendingAction) {
+        if (!this.checkSettingsAndApi()) return;
+        try {
+            const result = await this.replayPendingActionSafely(action, true);
+            if (result.outcome === 'done') {
+                await this.offlineQueue.remove(action.id);
+                new Notice("SolidTime: Offline change applied.");
+            } else {
+                new Notice(`SolidTime: Could not apply offline change. ${result.reason}`);
+            }
+        } catch (error) {
+            this.notifyError("Could not apply offline change", error);
+        }
+        await this.updateStatus();
+    }
+
+    async discardPendingAction(action: PendingAction) {
+        await this.offlineQueue.remove(action.id);
+        if (action.kind === 'start' && this.activeTimeEntry?.id === action.localEntryId) {
+            this.activeTimeEntry = null;
+        }
+        await this.updateStatus();
+    }
+
+    // Status bar hint like "⏳2 ⚠1", null when nothing is queued
+    getQueueNote(): string | null {
+        const pending = this.offlineQueue.pendingCount;
+        const conflicts = this.offlineQueue.conflictCount;
+        const parts: string[] = [];
+        if (pending > 0) parts.push(`⏳${pending}`);
+        if (conflicts > 0) parts.push(`⚠${conflicts}`);
+        return parts.length > 0 ? parts.join(' ') : null;
+    }
+
+    describeQueue(): string {
+        const pending = this.offlineQueue.pendingCount;
+        const conflicts = this.offlineQueue.conflictCount;
+        const parts: string[] = [];
+        if (pending > 0) parts.push(`${pending} offline change${pending === 1 ? '' : 's'} waiting to sync`);
+        if (conflicts > 0) parts.push(`${conflicts} in conflict`);
+        return parts.join(', ');
+    }
+
+    // --- Manual Time Entries ---
+
+    // Only the current user's entries: without the member filter, owners and admins get everyone's.
+    // Throws if the member can't be resolved, the callers report or skip that.
+    async getRecentTimeEntries(limit = 50, orgId: string = this.settings.selectedOrganizationId): Promise<TimeEntryResource[]> {
+        if (!this.checkSettingsAndApi()) return [];
+        const memberId = await this.getMemberIdForOrg(orgId);
+        const response = await this.api!.getTimeEntries(orgId, {
+            memberId: memberId,
+            limit: limit,
+        });
+        return response.data;
+    }
+
+    async pickRecentTimeEntry(onChoose: (entry: TimeEntryResource) => void) {
+        if (!this.checkSettingsAndApi()) return;
+        try {
+            const entries = await this.getRecentTimeEntries();
+            if (entries.length === 0) {
+                new Notice("SolidTime: No recent time entries found.");
+                return;
+            }
+            new TimeEntrySuggestModal(this.app, this, entries, onChoose).open();
+        } catch (error) {
+            console.error("SolidTime: Failed to fetch recent time entries", error);
+            this.notifyError("Failed to fetch recent time entries", error);
+        }
+    }
+
+    // --- Backdated starts ---
+
+    // Turns "-10m", "09:45" or "2024-01-31 09:45" into an API timestamp for a timer start.
+    // Shows a notice and returns null if the input is invalid, in the future, or overlaps the
+    // previous entry of the organization. entryId excludes the entry whose start is being moved.
+    async resolveStartInput(input: string, orgId: string, entryId: string | null = null): Promise<string | null> {
+        const start = parseStartInput(input);
+        if (!start) {
+            new Notice(`SolidTime: "${input}" is not a start time. Use e.g. "-10m", "09:45" or "2024-01-31 09:45".`);
+            return null;
+        }
+        if (start.isAfter(moment())) {
+            new Notice("SolidTime: The start time can't be in the future.");
+            return null;
+        }
+        const timestamp = toApiTimestamp(start);
+        return (await this.checkStartAfterPreviousEntry(orgId, timestamp, entryId)) ? timestamp : null;
+    }
+
+    // False (with a notice) if a finished entry ends after the given start
+    async checkStartAfterPreviousEntry(orgId: string, start: string, entryId: string | null): Promise<boolean> {
+        let entries: TimeEntryResource[];
+        try {
+            entries = await this.getRecentTimeEntries(10, orgId);
+        } catch (error) {
+            // Can't check while offline, the server accepts overlapping entries anyway
+            console.error("SolidTime: Failed to fetch recent time entries for the overlap check", error);
+            return true;
+        }
+        const overlapping = entries.find(entry =>
+            entry.id !== entryId && entry.end !== null && moment.utc(entry.end).isAfter(moment.utc(start))
+        );
+        if (overlapping) {
+            const label = overlapping.description || '(No description)';
+            new Notice(`SolidTime: That start overlaps "${label}", which ended at ${moment.utc(overlapping.end).local().format('HH:mm')}. Pick a later start.`);
+            return false;
+        }
+        return true;
+    }
+
+    async adjustActiveTimerStart(input: string) {
+        if (!this.checkSettingsAndApi()) return;
+        const entry = this.activeTimeEntry;
+        if (!entry) { new Notice("SolidTime: No timer is running to update."); return; }
+        const start = await this.resolveStartInput(input, entry.organization_id, entry.id);
+        if (!start || this.activeTimeEntry?.id !== entry.id) return;
+        await this.updateActiveTimerDetails({ start: start });
+    }
+
+    // --- Timer Presets ---
+
+    // One "Start preset: <name>" command per preset, so each can get a hotkey.
+    // Called again whenever the presets change.
+    registerPresetCommands() {
+        // removeCommand only exists since Obsidian 1.7.2. Before that, commands of deleted presets
+        // stay registered but hide themselves (checkCallback), and re-adding an ID replaces it.
+        if (typeof this.removeCommand === 'function') {
+            this.presetCommandIds.forEach(id => this.removeCommand(id));
+        }
+        this.presetCommandIds = this.settings.presets.map(preset => {
+            const id = `start-preset-${preset.id}`;
+            this.addCommand({
+                id: id,
+                name: `Start preset: ${preset.name}`,
+                checkCallback: (checking) => {
+                    if (!this.settings.presets.some(other => other.id === preset.id)) return false;
+                    if (!checking) this.startPreset(preset.id);
+                    return true;
+                },
+            });
+            return id;
+        });
+    }
+
+    async savePresets(presets: TimerPreset[]) {
+        this.settings.presets = presets;
+        await this.saveData(this.settings);
+        this.registerPresetCommands();
+        this.updateSolidTimeView();
+    }
+
+    // A new preset, filled in from an entry if given
+    createPreset(entry: TimeEntryResource | null): TimerPreset {
+        return {
+            id: createActionId(),
+            name: '',
+            description: entry?.description || null,
+            projectId: entry?.project_id || null,
+            taskId: entry?.task_id || null,
+            tagIds: entry?.tags || [],
+            billable: entry ? entry.billable : this.settings.defaultBillable,
+            organizationId: entry?.organization_id || this.settings.selectedOrganizationId,
+        };
+    }
+
+    describePreset(preset: TimerPreset): string {
+        const project = this.orgCache.findProject(preset.projectId);
+        const task = this.orgCache.findTask(preset.taskId);
+        const tags = this.orgCache.findTags(preset.tagIds).map(tag => tag.name);
+        const parts = [
+            preset.description,
+            project ? this.getProjectLabel(project) : (preset.projectId ? '(Unknown project)' : null),
+            task?.name,
+            tags.length > 0 ? tags.join(', ') : null,
+            preset.billable ? 'billable' : null,
+        ];
+        return parts.filter(part => !!part).join(' · ') || 'No details';
+    }
+
+    pickPreset() {
+        if (!this.checkSettingsAndApi()) return;
+        if (this.settings.presets.length === 0) {
+            new Notice("SolidTime: No timer presets yet. Add them in the plugin settings.");
+            return;
+        }
+        new PresetSuggestModal(this.app, this, preset => this.startPreset(preset.id)).open();
+    }
+
+    // Starts the preset, or switches to it if a timer is running
+    async startPreset(presetId: string): Promise<TimeEntryResource | null> {
+        const preset = this.settings.presets.find(other => other.id === presetId);
+        if (!preset) { new Notice("SolidTime: That timer preset no longer exists."); return null; }
+        return this.switchTimer({
+            description: preset.description,
+            projectId: preset.projectId,
+            taskId: preset.taskId,
+            tagIds: preset.tagIds,
+            billable: preset.billable,
+            organizationId: preset.organizationId,
+        });
+    }
+
+    // --- Timer links ---
+
+    async handleTimerLink(params: ObsidianProtocolData) {
+        if (!this.checkSettingsAndApi()) return;
+        const action = getTimerLinkAction(params);
+        if (action.error !== null) { new Notice(`SolidTime: ${action.error}`); return; }
+
+        switch (action.value) {
+            case 'stop':
+                await this.stopCurrentTimer();
+                return;
+            case 'continue':
+                await this.continueLastTimeEntry();
+                return;
+            case 'preset': {
+                const preset = resolveTimerLinkPreset(params, this.settings.presets);
+                if (preset.error !== null) { new Notice(`SolidTime: ${preset.error}`); return; }
+                await this.startPreset(preset.value.id);
+                return;
+            }
+        }
+
+        // A link may have opened Obsidian, names can only be resolved once the data is there
+        if (!this.orgCache.isLoaded(this.settings.selectedOrganizationId)) await this.loadSolidTimeData();
+        const target = resolveTimerLinkTarget(params, this.orgCache, this.settings.selectedOrganizationId, this.settings.defaultBillable);
+        if (target.error !== null) { new Notice(`SolidTime: ${target.error}`); return; }
+        const { start: startInput, ...options } = target.value;
+        const start = startInput ? await this.resolveStartInput(startInput, options.organizationId) : null;
+        if (startInput && !start) return;
+
+        if (action.value === 'start') {
+            await this.startTimer({ ...options, start: start || undefined });
+        } else {
+            await this.switchTimer({ ...options, start: start || undefined });
+        }
+    }
+
+    // --- Continue / Restart ---
+
+    // False if the entries couldn't be fetched, only logged here since the sidebar refreshes this in the background
+    async loadLastTimeEntry(): Promise<boolean> {
+        try {
+            const entries = await this.getRecentTimeEntries(5);
+            this.lastTimeEntry = entries.find(entry => entry.end !== null) || null;
+            this.updateSolidTimeView();
+            return true;
+        } catch (error) {
+            console.error("SolidTime: Failed to fetch the last time entry", error);
+            return false;
+        }
+    }
+
+    async continueLastTimeEntry() {
+        if (!this.checkSettingsAndApi()) return;
+        if (this.activeTimeEntry) { new Notice("SolidTime: Please stop the current timer first."); return; }
+        if (!(await this.loadLastTimeEntry())) {
+            new Notice("SolidTime: Couldn't fetch your last time entry. Check the connection and your membership in this organization.");
+            return;
+        }
+        if (!this.lastTimeEntry) { new Notice("SolidTime: No earlier time entry to continue."); return; }
+        await this.continueTimeEntry(this.lastTimeEntry);
+    }
+
+    // Starts a new timer with the description, project, task, tags and billable flag of an earlier entry
+    async continueTimeEntry(entry: TimeEntryResource): Promise<TimeEntryResource | null> {
+        return this.startTimer(this.getTimerOptionsFrom(entry));
+    }
+
+    getTimerOptionsFrom(entry: TimeEntryResource) {
+        return {
+            description: entry.description,
+            projectId: entry.project_id,
+            taskId: entry.task_id,
+            tagIds: entry.tags || [],
+            billable: entry.billable,
+            organizationId: entry.organization_id, // Tags (and a missing project) are organization specific
+        };
+    }
+
+    openTimeEntryEditor(entry: TimeEntryResource) {
+        new TimeEntryModal(
+            this.app,
+            this,
+            entry,
+            (values) => this.editTimeEntry(entry, values),
+            () => this.confirmDeleteTimeEntry(entry)
+        ).open();
+    }
+
+    confirmDeleteTimeEntry(entry: TimeEntryResource) {
+        const label = entry.description || '(No description)';
+        new ConfirmModal(
+            this.app,
+            'Delete time entry',
+            `Delete "${label}"? This cannot be undone.`,
+            'Delete',
+            () => this.deleteTimeEntry(entry)
+        ).open();
+    }
+
+    // The entry goes to the project's organization (which may not be the selected one) unless
+    // orgId says otherwise
+    async createManualTimeEntry(values: TimeEntryFormValues, orgId: string = this.getTimerOrgId(values.projectId)): Promise<TimeEntryResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        if (!values.end) { new Notice("SolidTime: A manual entry needs an end time."); return null; }
+
+        const payload: Omit<TimeEntryStorePayload, 'member_id'> = {
+            start: values.start,
+            end: values.end,
+            billable: values.billable,
+            project_id: values.projectId,
+            task_id: values.taskId,
+            description: values.description,
+            tags: values.tagIds.length > 0 ? values.tagIds : null,
+        };
+
+        try {
+            const newEntry = await this.withMemberId(orgId, memberId => this.api!.createTimeEntry(orgId, { ...payload, member_id: memberId }));
+            new Notice("SolidTime: Time entry added.");
+            return newEntry;
+        } catch (error) {
+            console.error("SolidTime: Failed to create time entry", error);
+            this.notifyError("Failed to add time entry", error);
+            return null;
+        }
+    }
+
+    async editTimeEntry(entry: TimeEntryResource, values: TimeEntryFormValues): Promise<TimeEntryResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+
+        // Unlike updateActiveTimerDetails, editing an entry may move its start
+        const payload: Omit<TimeEntryUpdatePayload, 'member_id'> = {
+            start: values.start,
+            end: values.end,
+            billable: values.billable,
+            project_id: values.projectId,
+            task_id: values.taskId,
+            description: values.description,
+            tags: values.tagIds,
+        };
+
+        try {
+            const updatedEntry = await this.withMemberId(entry.organization_id, memberId =>
+                this.api!.updateTimeEntry(entry.organization_id, entry.id, { ...payload, member_id: memberId }));
+            if (this.activeTimeEntry?.id === entry.id) {
+                this.activeTimeEntry = updatedEntry.end ? null : updatedEntry;
+                this.renderStatusBar();
+                this.updateSolidTimeView();
+            }
+            new Notice("SolidTime: Time entry updated.");
+            return updatedEntry;
+        } catch (error) {
+            console.error("SolidTime: Failed to update time entry", error);
+            this.notifyError("Failed to update time entry", error);
+            return null;
+        }
+    }
+
+    async deleteTimeEntry(entry: TimeEntryResource): Promise<boolean> {
+        if (!this.checkSettingsAndApi()) return false;
+        try {
+            await this.api!.deleteTimeEntry(entry.organization_id, entry.id);
+            if (this.activeTimeEntry?.id === entry.id) {
+                this.activeTimeEntry = null;
+                this.renderStatusBar();
+                this.updateSolidTimeView();
+            }
+            new Notice("SolidTime: Time entry deleted.");
+            return true;
+        } catch (error) {
+            console.error("SolidTime: Failed to delete time entry", error);
+            this.notifyError("Failed to delete time entry", error);
+            return false;
+        }
+    }
+
+    async createTag(tagName: string, orgId: string = this.settings.selectedOrganizationId): Promise<TagResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        if (!orgId) {
+            new Notice("No organization selected in settings.");
+            return null;
+        }
+        try {
+            const newTag = await this.api!.createTag(orgId, tagName);
+            // Add to local cache immediately for faster UI update in modal
+            const tags = this.orgCache.get(orgId).tags;
+            tags.push(newTag);
+            tags.sort((a, b) => a.name.localeCompare(b.name)); // Keep sorted
+            return newTag;
+        } catch (error) {
+            console.error("Plugin: Failed to create tag via API", error);
+            this.notifyError("Failed to create tag", error);
+            return null;
+        }
+    }
+
+    // --- Task Completion ---
+
+    getTaskSuggestOptions(projectId: string): TaskSuggestOptions {
+        return {
+            onCreate: (name) => this.createTask(name, projectId),
+            onToggleDone: (task) => this.setTaskDone(task, !task.is_done),
+        };
+    }
+
+    async setTaskDone(task: TaskResource, done: boolean): Promise<TaskResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        const orgId = this.orgCache.getOrgIdForTask(task.id) || this.orgCache.getOrgIdForProject(task.project_id) || this.settings.selectedOrganizationId;
+        try {
+            const updatedTask = await this.api!.updateTask(orgId, task.id, {
+                name: task.name,
+                is_done: done,
+            });
+            // Keep the cache in line with what loadSolidTimeData would fetch
+            const tasks = this.orgCache.get(orgId).tasks;
+            const index = tasks.findIndex(t => t.id === task.id);
+            if (done && !this.settings.showDoneTasks) {
+                if (index >= 0) tasks.splice(index, 1);
+            } else if (index >= 0) {
+                tasks[index] = updatedTask;
+            } else {
+                tasks.push(updatedTask);
+            }
+            new Notice(`SolidTime: Task "${updatedTask.name}" ${done ? 'marked as done' : 'reopened'}.`);
+            return updatedTask;
+        } catch (error) {
+            console.error("SolidTime: Failed to update task", error);
+            this.notifyError("Failed to update task", error);
+            return null;
+        }
+    }
+
+    async completeCurrentTask() {
+        if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is currently running."); return; }
+        if (!this.activeTimeEntry.task_id) { new Notice("SolidTime: The running timer has no task."); return; }
+        await this.completeTaskById(this.activeTimeEntry.task_id);
+    }
+
+    async completeTaskById(taskId: string) {
+        // The update endpoint requires the task name, so the task has to be in the cache
+        const task = this.orgCache.findTask(taskId);
+        if (!task) { new Notice("SolidTime: Task not found in cache. Refresh data and try again."); return; }
+        if (task.is_done) { new Notice(`SolidTime: Task "${task.name}" is already done.`); return; }
+        await this.setTaskDone(task, true);
+    }
+
+    // --- Create Projects / Tasks ---
+
+    // Pass orgId when the picker only lists that organization's projects (see getPickerProjects)
+    getProjectSuggestOptions(orgId?: string): ProjectSuggestOptions {
+        const acrossOrganizations = !orgId && this.settings.showAllOrganizationsInPickers && this.hasMultipleOrganizations();
+        return {
+            clients: acrossOrganizations
+                ? this.memberships.reduce<ClientResource[]>((all, m) => all.concat(this.orgCache.get(m.organization.id).clients), [])
+                : this.orgCache.get(orgId || this.settings.selectedOrganizationId).clients,
+            getOrganizationName: acrossOrganizations
+                ? (project) => this.getOrganizationName(this.orgCache.getOrgIdForProject(project.id))
+                : undefined,
+            onCreate: (name) => this.promptCreateProject(name, orgId),
+        };
+    }
+
+    // Opens the create-project form prefilled with the typed name. Resolves with null if cancelled.
+    promptCreateProject(name: string, orgId: string = this.settings.selectedOrganizationId): Promise<ProjectResource | null> {
+        return new Promise(resolve => {
+            new CreateProjectModal(
+                this.app,
+                this,
+                name,
+                async (payload) => resolve(await this.createProject(payload, orgId)),
+                () => resolve(null),
+                orgId
+            ).open();
+        });
+    }
+
+    async createProject(payload: ProjectStoreRequest, orgId: string = this.settings.selectedOrganizationId): Promise<ProjectResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        try {
+            const newProject = await this.api!.createProject(orgId, payload);
+            // Add to local cache immediately so pickers and the view know it
+            const projects = this.orgCache.get(orgId).projects;
+            projects.push(newProject);
+            projects.sort((a, b) => a.name.localeCompare(b.name));
+            new Notice(`SolidTime: Project "${newProject.name}" created.`);
+            return newProject;
+        } catch (error) {
+            console.error("Plugin: Failed to create project via API", error);
+            this.notifyError("Failed to create project", error);
+            return null;
+        }
+    }
+
+    async createTask(name: string, projectId: string): Promise<TaskResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        const orgId = this.orgCache.getOrgIdForProject(projectId) || this.settings.selectedOrganizationId;
+        try {
+            const newTask = await this.api!.createTask(orgId, { name: name, project_id: projectId });
+            const tasks = this.orgCache.get(orgId).tasks;
+            tasks.push(newTask);
+            tasks.sort((a, b) => a.name.localeCompare(b.name));
+            new Notice(`SolidTime: Task "${newTask.name}" created.`);
+            return newTask;
+        } catch (error) {
+            console.error("Plugin: Failed to create task via API", error);
+            this.notifyError("Failed to create task", error);
+            return null;
+        }
+    }
+
+    async updateStatus() { // updateStatus logic remains the same, relies on renderStatusBar
+        if (!this.api) {
+            if (this.statusBarItemEl && this.statusBarItemEl.getText().startsWith('⏱️')) {
+                this.statusBarItemEl.setText('SolidTime: Check Settings');
+                this.statusBarItemEl.removeClass('solidtime-active');
+                this.statusBarItemEl.removeAttribute('title');
+            }
+            this.currentTimeEntry = null; // Unknown from now on, not stopped: no timer events
+            return;
+        }
+        if (!this.pollBreaker.canRequest()) {
+            // Circuit open: keep the last known state and show when we'll try again
+            this.renderStatusBar();
+            return;
+        }
+        try {
+            // Queued offline actions go first, the active entry afterwards reflects them
+            await this.replayOfflineQueue();
+            this.activeTimeEntry = await this.api.getActiveTimeEntry();
+            this.pollBreaker.recordSuccess();
+            this.connectionIssue = null;
+            this.renderStatusBar();
+            this.updateSolidTimeView();
+            this.checkTimerLimits();
+        } catch (error) {
+            console.error("SolidTime: Failed to update status", error);
+            const isFirstFailure = this.pollBreaker.consecutiveFailures === 0;
+            this.pollBreaker.recordFailure();
+
+            if (isTransientError(error)) {
+                // Transient: keep the last known timer, the breaker decides when to try again
+                if (error instanceof SolidTimeRateLimitError && error.retryAfterSeconds !== null) {
+                    this.pollBreaker.tripFor(error.retryAfterSeconds * 1000);
+                }
+                this.connectionIssue = error instanceof SolidTimeNetworkError ? 'Offline'
+                    : error instanceof SolidTimeRateLimitError ? 'Rate limited' : 'Server error';
+                this.renderStatusBar();
+                this.updateSolidTimeView();
+                this.checkTimerLimits(); // The last known timer may still be a forgotten one
+                return;
+            }
+
+            // The timer may well still run on the server, so keep the last known one (a stop event
+            // here would be about a stop that never happened). Only a successful poll changes it.
+            if (error instanceof SolidTimeAuthError) {
+                this.connectionIssue = error.status === 401 && isTokenExpired(this.apiTokenInfo) ? 'Token expired' : 'Auth error';
+                // Only once per failure streak, not on every poll
+                if (isFirstFailure) this.notifyError("Authentication error fetching status", error);
+            } else {
+                this.connectionIssue = 'Error';
+            }
+            this.renderStatusBar();
+            this.updateSolidTimeView();
+        }
+    }
+
+    // Short status bar hint about polling problems, null when everything is fine
+    getConnectionNote(): string | null {
+        const retryInMs = this.pollBreaker.getRetryInMs();
+        if (retryInMs > 0) {
+            return `Paused, retry in ${this.formatRetryIn(retryInMs)}`;
+        }
+        return this.connectionIssue;
+    }
+
+    // Longer explanation for the status bar tooltip
+    describeConnection(): string {
+        const retryInMs = this.pollBreaker.getRetryInMs();
+        if (retryInMs > 0) {
+            return `Stopped checking SolidTime after ${this.pollBreaker.consecutiveFailures} failed requests (${this.connectionIssue || 'error'}). Next attempt in ${this.formatRetryIn(retryInMs)}.`;
+        }
+        if (this.pollBreaker.state === 'half-open') {
+            return 'Checking whether SolidTime is reachable again...';
+        }
+        return this.connectionIssue ? `${this.connectionIssue}. Showing the last known timer.` : 'Connected';
+    }
+
+    formatRetryIn(ms: number): string {
+        const seconds = Math.ceil(ms / 1000);
+        return seconds >= 60 ? `${Math.ceil(seconds / 60)}m` : `${seconds}s`;
+    }
+
+    renderStatusBar() {
+        if (!this.statusBarItemEl) return;
+
+        if (this.activeTimeEntry && this.activeTimeEntry.start) { // Check if start time exists
+            const startDateTime = moment.utc(this.activeTimeEntry.start);
+            if (!startDateTime.isValid) {
+                console.error("SolidTime: Failed to parse start time for status bar:", this.activeTimeEntry.start);
+                this.statusBarItemEl.setText('SolidTime: Invalid date');
+                this.statusBarItemEl.removeClass('solidtime-active'); // Ensure inactive class state
+                this.statusBarItemEl.removeAttribute('title');
+                return;
+             }
+            const nowDateTime = moment.utc();
+            const duration = nowDateTime.diff(startDateTime);
+            const formattedDuration = this.formatDuration(duration);
+
+            const connectionNote = this.getConnectionNote();
+            const queueNote = this.getQueueNote();
+            const focusNote = this.getFocusNote();
+            let display = `${connectionNote ? '🟡' : '🟢'} ${formattedDuration}`;
+            if (focusNote) { display += ` ${focusNote}`; }
+            
+            const project = this.orgCache.findProject(this.activeTimeEntry.project_id);
+            if (project) { display += ` | ${project.name}`; }
+            else if (this.activeTimeEntry.project_id) { display += ` | (Project?)`; }
+            if (this.activeTimeEntry.description) {
+                const desc = this.activeTimeEntry.description.length > 20 ? this.activeTimeEntry.description.substring(0, 18) + '...' : this.activeTimeEntry.description;
+                display += ` - ${desc}`;
+            }
+            const orgName = this.getOrganizationName(this.activeTimeEntry.organization_id);
+            if (orgName && this.hasMultipleOrganizations()) { display += ` @ ${orgName}`; }
+            if (queueNote) { display += ` ${queueNote}`; }
+
+            this.statusBarItemEl.setText(display);
+            this.statusBarItemEl.addClass('solidtime-active');
+            
+            const tooltipProjectName = project?.name || `(ID: ...${this.activeTimeEntry.project_id?.slice(-6) || 'None'})`;
+            const tooltipClient = this.getClientForProject(project);
+            
+            const localStartTime = startDateTime.local().format('YYYY-MM-DD HH:mm');
+            let tooltip = `SolidTime Timer\nDescription: ${this.activeTimeEntry.description || '(None)'}\nProject: ${tooltipProjectName}`;
+            if (tooltipClient) { tooltip += `\nClient: ${tooltipClient.name}`; }
+            if (orgName) { tooltip += `\nOrganization: ${orgName}`; }
+            tooltip += `\nStarted: ${localStartTime}`;
+            const earnings = this.formatEarnings(this.activeTimeEntry, duration, true);
+            if (earnings) { tooltip += `\nEarned: ${earnings}`; }
+            if (focusNote) { tooltip += `\nFocus: ${this.describeFocus()}`; }
+            if (connectionNote) { tooltip += `\nConnection: ${this.describeConnection()}`; }
+            if (queueNote) { tooltip += `\nPending: ${this.describeQueue()}`; }
+            this.statusBarItemEl.setAttribute('title', tooltip);
+
+        } else {
+            const connectionNote = this.getConnectionNote();
+            const queueNote = this.getQueueNote();
+            const focusNote = this.getFocusNote();
+            if (focusNote) {
+                // E.g. during a break the timer was stopped for
+                this.statusBarItemEl.setText(`SolidTime ${focusNote}${queueNote ? ` ${queueNote}` : ''}`);
+                this.statusBarItemEl.removeClass('solidtime-active');
+                this.statusBarItemEl.setAttribute('title', `Focus: ${this.describeFocus()}`);
+                return;
+            }
+            if (this.api && this.settings.selectedOrganizationId && (connectionNote || queueNote)) {
+                this.statusBarItemEl.setText(`SolidTime${connectionNote ? `: ${connectionNote}` : ''}${queueNote ? ` ${queueNote}` : ''}`);
+                this.statusBarItemEl.removeClass('solidtime-active');
+                const tooltipLines: string[] = [];
+                if (connectionNote) tooltipLines.push(this.describeConnection());
+                if (queueNote) tooltipLines.push(`Pending: ${this.describeQueue()}`);
+                this.statusBarItemEl.setAttribute('title', tooltipLines.join('\n'));
+                return;
+            }
+            const orgName = this.getOrganizationName(this.settings.selectedOrganizationId);
+            if (this.api && this.settings.selectedOrganizationId) {
+                // Only worth the space when there's more than one organization to confuse it with
+                this.statusBarItemEl.setText(orgName && this.hasMultipleOrganizations() ? `SolidTime @ ${orgName}` : 'SolidTime');
+            }
+            else { this.statusBarItemEl.setText('SolidTime: Setup needed'); }
+            this.statusBarItemEl.removeClass('solidtime-active');
+            if (orgName) { this.statusBarItemEl.setAttribute('title', `Organization: ${orgName}`); }
+            else { this.statusBarItemEl.removeAttribute('title'); }
+        }
+    }
+
+    // --- Billing ---
+
+    // Null when there's no rate or the organization hides rates from this user
+    getBillableRate(orgId: string, projectId: string | null): BillableRate | null {
+        const data = this.orgCache.get(orgId);
+        if (!canSeeBillableRates(this.getMembershipRole(orgId), data.organization)) return null;
+        return resolveBillableRate(this.orgCache.findProject(projectId), data.member, data.organization);
+    }
+
+    getCurrency(orgId: string): string | null {
+        return this.orgCache.get(orgId).organization?.currency
+            || this.memberships.find(m => m.organization?.id === orgId)?.organization.currency
+            || null;
+    }
+
+    // Money value of a billable entry, e.g. "€12.50" or "€12.50 (€75.00/h)". Null if the entry
+    // isn't billable, has no rate, or earnings are turned off or hidden.
+    formatEarnings(entry: TimeEntryResource, durationMs: number, withRate = false): string | null {
+        if (!this.settings.showEarnings || !entry.billable) return null;
+        const rate = this.getBillableRate(entry.organization_id, entry.project_id);
+        const currency = this.getCurrency(entry.organization_id);
+        if (!rate || !currency) return null;
+        const earnings = formatMoney(calculateEarnings(durationMs, rate.rate), currency);
+        return withRate ? `${earnings} (${formatMoney(rate.rate, currency)}/h)` : earnings;
+    }
+
+    getClientForProject(project: ProjectResource | null | undefined): ClientResource | null {
+        if (!project?.client_id) return null;
+        return this.orgCache.findClient(project.client_id);
+    }
+
+    // "Client / Project" when the project belongs to a client, otherwise just the project name
+    getProjectLabel(project: ProjectResource): string {
+        const client = this.getClientForProject(project);
+        return client ? `${client.name} / ${project.name}` : project.name;
     }
 
     formatDuration(durationMs: number): string { // Now accepts milliseconds
@@ -486,88 +1887,77 @@ export default class SolidTimePlugin extends Plugin {
         return `${hours}:${minutes}:${seconds}`;
     }
 
-    async startTimer(options: {
-        description: string | null;
-        projectId: string | null;
-        taskId: string | null;
-        tagIds: string[];
-        billable: boolean;
-    }) {
-        if (!this.checkSettingsAndApi()) return;
-        if (!this.settings.selectedMemberId) { new Notice("Error: Member ID missing. Please re-select organization in settings."); return; }
-        if (this.activeTimeEntry) { new Notice("SolidTime: Please stop the current timer first."); return; }
-
-        const start = moment.utc().format("YYYY-MM-DDTHH:mm:ss") + 'Z';
+    // Pickers may offer projects of other organizations, a timer runs in the project's one
+    getTimerOrgId(projectId: string | null): string {
+        return this.orgCache.getOrgIdForProject(projectId) || this.settings.selectedOrganizationId;
+    }
 
-        const payload: TimeEntryStartPayload = {
-            member_id: this.settings.selectedMemberId,
-            start: start,
-            billable: options.billable,
-            project_id: options.projectId,
-            task_id: options.taskId,
-            description: options.description,
-            tags: options.tagIds.length > 0 ? options.tagIds : null,
+    // Organization and payload (without member ID) for starting a timer
+    getStartPayload(options: TimerOptions, start: string): { orgId: string; payload: Omit<TimeEntryStartPayload, 'member_id'> } {
+        const orgId = options.organizationId || this.getTimerOrgId(options.projectId);
+        return {
+            orgId: orgId,
+            payload: {
+                start: start,
+                billable: options.billable,
+                project_id: options.projectId,
+                task_id: options.taskId,
+                description: options.description,
+                tags: options.tagIds.length > 0 ? options.tagIds : null,
+            },
         };
+    }
+
+    async startTimer(options: TimerOptions): Promise<TimeEntryResource | null> { // The started (or locally queued) entry
+        if (!this.checkSettingsAndApi()) return null;
+        if (this.activeTimeEntry) { new Notice("SolidTime: Please stop the current timer first, or switch timers."); return null; }
+
+        const { orgId, payload } = this.getStartPayload(options, options.start || nowApiTimestamp());
 
         try {
             new Notice("SolidTime: Starting timer...");
             // console.log("Start Timer Payload:", JSON.stringify(payload, null, 2)); // Log start payload
-            const newEntry = await this.api!.startTimeEntry(this.settings.selectedOrganizationId, payload);
+            const newEntry = await this.withMemberId(orgId, memberId => this.api!.startTimeEntry(orgId, { ...payload, member_id: memberId }));
             this.activeTimeEntry = newEntry;
             this.renderStatusBar();
             this.updateSolidTimeView();
             new Notice("SolidTime: Timer started!");
+            return newEntry;
         } catch (error) {
             console.error("SolidTime: Failed to start timer", error);
+            if (isTransientError(error)) {
+                // Keep the start locally with its original timestamp and send it later.
+                // An unknown member ID is looked up when the start is replayed.
+                return await this.queueOfflineStart(orgId, { ...payload, member_id: this.getCachedMemberId(orgId) || '' });
+            }
+            this.notifyError("Failed to start timer", error);
+            return null;
         }
     }
 
-    async stopCurrentTimer() {
-        if (!this.api) { new Notice("SolidTime: API not configured."); return; }
-        if (!this.currentUser) {
-            try {
-                // console.log("SolidTime: Fetching current user before stopping timer...");
-                this.currentUser = await this.api.getMe();
-            }
-            catch (e) {
-                console.error("SolidTime: Failed to get current user", e);
-                new Notice("Error: Could not verify current user. Cannot stop timer.");
-                return;
-            }
-        }
-        if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is currently running."); return; }
+    async stopCurrentTimer(options: { completeTask?: boolean; end?: string } = {}): Promise<TimeEntryResource | null> { // The stopped entry
+        if (!this.api) { new Notice("SolidTime: API not configured."); return null; }
+        if (!this.activeTimeEntry) { new Notice("SolidTime: No timer is currently running."); return null; }
         if (!this.activeTimeEntry.organization_id || !this.activeTimeEntry.start) { // Also check if start exists
             console.error("SolidTime: Active time entry is missing required data (org_id or start)!", this.activeTimeEntry);
             new Notice("Error: Cannot stop timer, active entry data is incomplete. Please refresh.", 5000);
-            await this.updateStatus(); return;
+            await this.updateStatus(); return null;
         }
 
         const entryToStop = this.activeTimeEntry!;
         const orgIdForEntry = entryToStop.organization_id;
 
-        const end = moment.utc().format("YYYY-MM-DDTHH:mm:ss") + 'Z';
-
-        let correctMemberId: string | null = null;
-
-        try {
-            const members = await this.api!.getMembers(orgIdForEntry);
-            const currentMembership = members.find(member => member.user_id === this.currentUser!.id);
-            if (currentMembership) { correctMemberId = currentMembership.id; }
-            else {
-                console.error(`SolidTime: Could not find membership for user ${this.currentUser!.id} in organization ${orgIdForEntry}.`);
-                new Notice(`Error: Your user was not found in the timer's organization (${orgIdForEntry}). Cannot stop timer.`);
-            } // Error handling as before
-        } catch (error) {
-            console.error(`SolidTime: Failed to fetch members for organization ${orgIdForEntry}`, error);
-            new Notice("Error: Failed to fetch organization members. Cannot stop timer.");
-            return;
-        } // Error handling as before
-        if (!correctMemberId) { new Notice("Error: Could not determine correct Member ID. Cannot stop timer."); return; }
+        // Taken before any request, so a queued stop keeps the moment the user acted
+        const end = options.end || nowApiTimestamp();
 
+        if (isOfflineEntryId(entryToStop.id)) {
+            // Started offline, it only exists in the queue so far
+            await this.queueOfflineStop(entryToStop, end);
+            return { ...entryToStop, end: end };
+        }
 
-        // Construct Payload WITHOUT 'start' field
+        // Construct Payload WITHOUT 'start' field, withMemberId adds the member ID
         const payloadToSend = {
-            member_id: correctMemberId,
             // start: entryToStop.start, // REMOVED 'start' field
             end: end,
             billable: entryToStop.billable,
@@ -584,19 +1974,434 @@ export default class SolidTimePlugin extends Plugin {
 
         try {
             new Notice("SolidTime: Stopping timer...");
-            this.activeTimeEntry = null;
+            const stoppedEntry = await this.withMemberId(orgIdForEntry, memberId =>
+                this.api!.stopTimeEntry(orgIdForEntry, entryToStop.id, { ...payloadToSend, member_id: memberId } as TimeEntryStopPayload));
+            // Cleared only now, so a failed stop doesn't announce a stopped timer to other plugins
+            if (this.activeTimeEntry?.id === entryToStop.id) this.activeTimeEntry = null;
+            this.lastTimeEntry = stoppedEntry;
+            new Notice("SolidTime: Timer stopped!");
             this.renderStatusBar();
             this.updateSolidTimeView();
-            await this.api!.stopTimeEntry(orgIdForEntry, entryToStop.id, payloadToSend as TimeEntryStopPayload);
-            new Notice("SolidTime: Timer stopped!");
+            if (options.completeTask && entryToStop.task_id) {
+                await this.completeTaskById(entryToStop.task_id);
+            }
+            return stoppedEntry;
         } catch (error) {
             console.error("SolidTime: Failed to stop timer", error);
+            if (isTransientError(error)) {
+                await this.queueOfflineStop(entryToStop, end);
+                return { ...entryToStop, end: end };
+            }
             await this.updateStatus(); // Revert/refresh
-            new Notice("SolidTime: Failed to stop timer. Status refreshed.");
+            this.notifyError("Failed to stop timer. Status refreshed", error);
+            return null;
         }
     } // --- End stopCurrentTimer ---
 
 
+    // --- Focus Sessions ---
+
+    startFocusSession() {
+        if (this.focusSession) { new Notice("SolidTime: A focus session is already running."); return; }
+        this.focusSession = new FocusSession({
+            workMs: this.settings.focusWorkMinutes * 60 * 1000,
+            shortBreakMs: this.settings.focusShortBreakMinutes * 60 * 1000,
+            longBreakMs: this.settings.focusLongBreakMinutes * 60 * 1000,
+            longBreakEvery: this.settings.focusLongBreakEvery,
+        });
+        new Notice(`SolidTime: Focus for ${this.settings.focusWorkMinutes} minutes.${this.activeTimeEntry ? '' : " No timer is running, start one to track this session."}`);
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+    }
+
+    // Ends the session. A timer stopped for the break stays stopped, a break entry keeps running.
+    stopFocusSession() {
+        if (!this.focusSession) return;
+        this.focusSession = null;
+        new Notice("SolidTime: Focus session stopped.");
+        this.renderStatusBar();
+        this.updateSolidTimeView();
+    }
+
+    async skipFocusPhase() {
+        if (!this.focusSession) return;
+        this.focusSession.phaseEndsAt = Date.now();
+        await this.tickClock();
+    }
+
+    // The single local clock, every second: durations in the status bar and all views, and focus
+    // boundaries. The server is only asked by updateStatus, see scheduleStatusPoll.
+    async tickClock() {
+        await this.tickFocusSession();
+        this.renderStatusBar();
+        this.updateClockDisplays();
+    }
+
+    async tickFocusSession() {
+        const session = this.focusSession;
+        if (!session) return;
+        if (session.isDue() && !this.handlingFocusBoundary) {
+            this.handlingFocusBoundary = true;
+            try {
+                await this.handleFocusBoundary(session);
+            } finally {
+                this.handlingFocusBoundary = false;
+            }
+            this.updateSolidTimeView();
+        }
+    }
+
+    async handleFocusBoundary(session: FocusSession) {
+        const now = Date.now();
+        const boundary = session.phaseEndsAt;
+        // Ticks stop while the computer sleeps, don't replay the phases missed meanwhile
+        const nextStart = now - boundary > FOCUS_LATE_MS ? now : boundary;
+        const ended = session.phase;
+        session.advance(nextStart);
+        if (ended === 'work') {
+            await this.startFocusBreak(session, boundary, nextStart);
+        } else {
+            await this.endFocusBreak(session, boundary, nextStart);
+        }
+    }
+
+    async startFocusBreak(session: FocusSession, workEnd: number, breakStart: number) {
+        const sessionsToday = this.getFocusSessionsToday() + 1;
+        this.settings.focusStats = { date: moment().format('YYYY-MM-DD'), sessions: sessionsToday };
+        await this.saveData(this.settings);
+        new Notice(`SolidTime: Focus session done (${sessionsToday} today). Take a ${this.formatCountdown(session.getRemainingMs())} break.`, 10000);
+
+        if (!this.settings.focusStopTimerOnBreak || !this.activeTimeEntry) return;
+        session.workEntry = this.activeTimeEntry;
+        await this.stopCurrentTimer({ end: toApiTimestamp(moment(workEnd)) });
+        if (this.activeTimeEntry) return; // Stop failed
+
+        const breakProjectId = this.settings.focusBreakProjectId || null;
+        const breakTagId = this.settings.focusBreakTagId || null;
+        if (!breakProjectId && !breakTagId) return;
+        const breakEntry = await this.startTimer({
+            description: 'Break',
+            projectId: breakProjectId,
+            taskId: null,
+            tagIds: breakTagId ? [breakTagId] : [],
+            billable: false,
+            start: toApiTimestamp(moment(breakStart)),
+        });
+        session.breakEntryId = breakEntry ? breakEntry.id : null;
+    }
+
+    async endFocusBreak(session: FocusSession, breakEnd: number, workStart: number) {
+        new Notice(`SolidTime: Break over, focus for ${this.settings.focusWorkMinutes} minutes.`, 10000);
+
+        if (session.breakEntryId && this.activeTimeEntry?.id === session.breakEntryId) {
+            await this.stopCurrentTimer({ end: toApiTimestamp(moment(breakEnd)) });
+        }
+        session.breakEntryId = null;
+
+        const workEntry = session.workEntry;
+        session.workEntry = null;
+        // Don't interfere if the user started something else during the break
+        if (!workEntry || this.activeTimeEntry) return;
+        await this.startTimer({ ...this.getTimerOptionsFrom(workEntry), start: toApiTimestamp(moment(workStart)) });
+    }
+
+    getFocusSessionsToday(): number {
+        const stats = this.settings.focusStats;
+        return stats.date === moment().format('YYYY-MM-DD') ? stats.sessions : 0;
+    }
+
+    formatCountdown(ms: number): string {
+        const totalSeconds = Math.ceil(ms / 1000);
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+    }
+
+    // e.g. "🍅 12:34" during work, "☕ 4:12" during a break, null without a focus session
+    getFocusNote(): string | null {
+        if (!this.focusSession) return null;
+        const icon = this.focusSession.phase === 'work' ? '🍅' : '☕';
+        return `${icon} ${this.formatCountdown(this.focusSession.getRemainingMs())}`;
+    }
+
+    describeFocus(): string {
+        if (!this.focusSession) return '';
+        const phase = this.focusSession.phase === 'work' ? 'Focus' : 'Break';
+        const sessions = this.getFocusSessionsToday();
+        return `${phase}, ${this.formatCountdown(this.focusSession.getRemainingMs())} left · ${sessions} session${sessions === 1 ? '' : 's'} today`;
+    }
+
+    // Updates only the duration and countdown in open views, a full re-render every second would interrupt editing
+    updateClockDisplays() {
+        for (const leaf of this.app.workspace.getLeavesOfType(SOLIDTIME_VIEW_TYPE)) {
+            if (leaf.view instanceof SolidTimeView) {
+                leaf.view.updateDuration();
+                leaf.view.updateFocus();
+            }
+        }
+    }
+
+    // --- Idle Detection ---
+
+    onUserActivity() {
+        const wasAway = this.idleMonitor.isAway();
+        const thresholdMs = this.settings.idleThresholdMinutes * 60 * 1000;
+        const idleSince = this.idleMonitor.recordActivity(thresholdMs);
+        // Polling was slowed down while the user was away
+        if (wasAway) this.scheduleStatusPoll();
+        if (idleSince === null || this.idlePromptOpen) return;
+
+        const entry = this.activeTimeEntry;
+        if (!entry?.start) return;
+        // Only the part of the idle period the timer was running counts
+        const idleStart = Math.max(idleSince, Date.parse(entry.start));
+        const idleEnd = Date.now();
+        if (idleEnd - idleStart < thresholdMs) return;
+
+        this.idlePromptOpen = true;
+        new IdleModal(
+            this.app,
+            this,
+            entry,
+            toApiTimestamp(moment(idleStart)),
+            toApiTimestamp(moment(idleEnd)),
+            () => { this.idlePromptOpen = false; }
+        ).open();
+    }
+
+    // --- Forgotten Timer Guard ---
+
+    // Called on every status poll. Once the running timer passes the maximum duration or the end of
+    // the work day, a notice (until dismissed) offers to stop it at the limit or at the last activity.
+    checkTimerLimits() {
+        const entry = this.activeTimeEntry;
+        if (this.timerLimitNotice && this.timerLimitNotice.entryId !== entry?.id) this.hideTimerLimitNotice();
+        if (!entry?.start) return;
+
+        const limit = getPassedTimerLimit(Date.parse(entry.start), {
+            maxDurationMs: this.settings.maxTimerHours * 60 * 60 * 1000,
+            workEndTime: this.settings.workEndTime,
+        });
+        if (!limit) return;
+        // Ask once per entry and limit, and not on top of the idle prompt (asked again next poll)
+        const key = `${entry.id}@${limit.at}`;
+        if (this.timerLimitHandled === key || this.idlePromptOpen) return;
+        this.timerLimitHandled = key;
+        this.showTimerLimitNotice(entry, limit);
+    }
+
+    showTimerLimitNotice(entry: TimeEntryResource, limit: TimerLimit) {
+        this.hideTimerLimitNotice();
+        const project = this.orgCache.findProject(entry.project_id);
+        const timerName = entry.description || (project ? project.name : 'Your timer');
+        const message = limit.reason === 'max-duration'
+            ? `SolidTime: "${timerName}" has been running for more than ${this.settings.maxTimerHours} hours.`
+            : `SolidTime: "${timerName}" is still running after your work day ended (${this.settings.workEndTime}).`;
+
+        const fragment = document.createDocumentFragment();
+        fragment.createEl('div', { text: message });
+        const buttons = fragment.createEl('div', { cls: 'solidtime-notice-buttons' });
+        const addButton = (text: string, onClick: () => void) => {
+            // Clicking anywhere on the notice hides it
+            buttons.createEl('button', { text: text }).addEventListener('click', () => {
+                this.timerLimitNotice = null;
+                onClick();
+            });
+        };
+        addButton(`Stop at ${moment(limit.at).format('HH:mm')}`, () => this.stopForgottenTimer(entry, limit.at));
+        const lastSeen = this.idleMonitor.getLastSeen();
+        if (lastSeen !== null && lastSeen > Date.parse(entry.start)) {
+            addButton(`Stop at last activity (${moment(lastSeen).format('HH:mm')})`, () => this.stopForgottenTimer(entry, lastSeen));
+        }
+        addButton('Keep running', () => { /* Not asked again for this limit */ });
+
+        this.timerLimitNotice = { notice: new Notice(fragment, 0), entryId: entry.id };
+    }
+
+    hideTimerLimitNotice() {
+        this.timerLimitNotice?.notice.hide();
+        this.timerLimitNotice = null;
+    }
+
+    async stopForgottenTimer(entry: TimeEntryResource, end: number) {
+        if (this.activeTimeEntry?.id !== entry.id) {
+            new Notice("SolidTime: The timer was changed in the meantime and keeps running as it is.");
+            return;
+        }
+        await this.stopCurrentTimer({ end: toApiTimestamp(moment(end)) });
+    }
+
+    // The idle prompt's actions only apply if the same timer is still running
+    isStillRunning(entry: TimeEntryResource): boolean {
+        if (this.activeTimeEntry?.id === entry.id) return true;
+        new Notice("SolidTime: The timer was changed in the meantime, the idle time was left as it is.");
+        return false;
+    }
+
+    // Stops the timer at the moment the user went idle
+    async discardIdleTime(entry: TimeEntryResource, idleStart: string) {
+        if (!this.isStillRunning(entry)) return;
+        await this.stopCurrentTimer({ end: idleStart });
+    }
+
+    // Books the idle period as its own entry and continues the original timer from now
+    async splitIdleTime(entry: TimeEntryResource, idleStart: string, idleEnd: string, project: ProjectResource | null, description: string | null) {
+        if (!this.isStillRunning(entry)) return;
+        await this.stopCurrentTimer({ end: idleStart });
+        if (this.activeTimeEntry) return; // Stop failed, the notice already says why
+
+        await this.createManualTimeEntry({
+            start: idleStart,
+            end: idleEnd,
+            description: description,
+            projectId: project?.id || null,
+            taskId: null,
+            tagIds: [],
+            billable: project ? project.is_billable : this.settings.defaultBillable,
+        }, entry.organization_id); // Even without a project, the idle time belongs to the timer's organization
+        await this.startTimer({ ...this.getTimerOptionsFrom(entry), start: idleEnd });
+    }
+
+    // Stops the running entry and starts the new one with one shared timestamp, so there's neither a
+    // gap nor an overlap. If the start is refused, the old entry is reopened as if nothing happened.
+    async switchTimer(options: TimerOptions): Promise<TimeEntryResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        const oldEntry = this.activeTimeEntry;
+        if (!oldEntry) return this.startTimer(options);
+
+        // A backdated switch ends the old entry at the new start
+        const at = options.start || nowApiTimestamp();
+        if (!moment.utc(at).isAfter(moment.utc(oldEntry.start))) {
+            new Notice("SolidTime: The new timer has to start after the current one did.");
+            return null;
+        }
+        return this.handOverTimer(oldEntry, {}, options, at, 'switch');
+    }
+
+    // Ends the running entry at the split point and continues from exactly there in a new entry.
+    // Each part may get its own description, project, task and billable state.
+    async splitActiveTimer(splitInput: string, first: SplitPart, second: SplitPart): Promise<TimeEntryResource | null> {
+        if (!this.checkSettingsAndApi()) return null;
+        const entry = this.activeTimeEntry;
+        if (!entry) { new Notice("SolidTime: No timer is running to split."); return null; }
+
+        const splitAt = parseStartInput(splitInput);
+        if (!splitAt) {
+            new Notice(`SolidTime: "${splitInput}" is not a time. Use e.g. "-15m" or "10:30".`);
+            return null;
+        }
+        const at = toApiTimestamp(splitAt);
+        if (!moment.utc(at).isAfter(moment.utc(entry.start)) || splitAt.isAfter(moment())) {
+            new Notice("SolidTime: The split has to be between the timer's start and now.");
+            return null;
+        }
+
+        // Only what actually changes, so an offline update doesn't conflict needlessly
+        const firstChanges: TimeEntryChanges = {};
+        if (first.description !== entry.description) firstChanges.description = first.description;
+        if (first.projectId !== entry.project_id) firstChanges.project_id = first.projectId;
+        if (first.taskId !== entry.task_id) firstChanges.task_id = first.taskId;
+        if (first.billable !== entry.billable) firstChanges.billable = first.billable;
+
+        return this.handOverTimer(entry, firstChanges, {
+            description: second.description,
+            projectId: second.projectId,
+            taskId: second.taskId,
+            tagIds: entry.tags || [],
+            billable: second.billable,
+            organizationId: entry.organization_id,
+        }, at, 'split');
+    }
+
+    // Shared by switchTimer and splitActiveTimer: stops oldEntry at `at` (with oldChanges applied)
+    // and starts the new entry at the same `at`. Rolls back the stop if the start is refused.
+    private async handOverTimer(
+        oldEntry: TimeEntryResource,
+        oldChanges: TimeEntryChanges,
+        options: TimerOptions,
+        at: string,
+        action: 'switch' | 'split'
+    ): Promise<TimeEntryResource | null> {
+        const { orgId, payload } = this.getStartPayload(options, at);
+        const oldOrgId = oldEntry.organization_id;
+        const stopped = { ...oldEntry, ...oldChanges };
+        const queueBoth = async () => {
+            // Stays in the offline queue, in order
+            if (Object.keys(oldChanges).length > 0) await this.queueOfflineUpdate(oldEntry, oldChanges);
+            await this.queueOfflineStop(oldEntry, at);
+            return this.queueOfflineStart(orgId, { ...payload, member_id: this.getCachedMemberId(orgId) || '' });
+        };
+
+        if (isOfflineEntryId(oldEntry.id)) return queueBoth();
+
+        // 1. Stop the old entry at the shared timestamp
+        try {
+            new Notice(action === 'switch' ? "SolidTime: Switching timer..." : "SolidTime: Splitting timer...");
+            this.lastTimeEntry = await this.withMemberId(oldOrgId, memberId => this.api!.stopTimeEntry(oldOrgId, oldEntry.id, {
+                end: at,
+                billable: stopped.billable,
+                project_id: stopped.project_id,
+                task_id: stopped.task_id,
+                description: stopped.description,
+                tags: stopped.tags,
+                member_id: memberId,
+            } as TimeEntryStopPayload));
+        } catch (error) {
+            console.error(`SolidTime: Failed to stop timer for the ${action}`, error);
+            if (isTransientError(error)) return queueBoth();
+            this.notifyError(`Failed to ${action} timer, the current timer keeps running`, error);
+            return null;
+        }
+        this.activeTimeEntry = null;
+
+        // 2. Start the new entry at the same timestamp
+        try {
+            const newEntry = await this.withMemberId(orgId, memberId => this.api!.startTimeEntry(orgId, { ...payload, member_id: memberId }));
+            this.activeTimeEntry = newEntry;
+            this.renderStatusBar();
+            this.updateSolidTimeView();
+            new Notice(action === 'switch' ? "SolidTime: Timer switched!" : "SolidTime: Timer split!");
+            return newEntry;
+        } catch (error) {
+            console.error(`SolidTime: Failed to start timer for the ${action}`, error);
+            if (isTransientError(error)) {
+                // The stop went through, the start follows with the same timestamp once reachable
+                return this.queueOfflineStart(orgId, { ...payload, member_id: this.getCachedMemberId(orgId) || '' });
+            }
+            // 3. Roll back: reopen the old entry as it was
+            const resumed = await this.resumeStoppedEntry(oldEntry);
+            this.notifyError(resumed
+                ? "Failed to start the new timer, the previous timer keeps running"
+                : `Failed to start the new timer, and the previous one could not be resumed (it was stopped at ${moment.utc(at).local().format('HH:mm')})`, error);
+            return null;
+        }
+    }
+
+    // Undoes a stop by clearing the entry's end again
+    async resumeStoppedEntry(entry: TimeEntryResource): Promise<boolean> {
+        const orgId = entry.organization_id;
+        try {
+            this.activeTimeEntry = await this.withMemberId(orgId, memberId => this.api!.updateTimeEntry(orgId, entry.id, {
+                member_id: memberId,
+                start: entry.start,
+                end: null,
+                billable: entry.billable,
+                project_id: entry.project_id,
+                task_id: entry.task_id,
+                description: entry.description,
+                tags: entry.tags,
+            }));
+            return true;
+        } catch (error) {
+            console.error("SolidTime: Failed to resume the stopped entry", error);
+            await this.updateStatus();
+            return false;
+        } finally {
+            this.renderStatusBar();
+            this.updateSolidTimeView();
+        }
+    }
+
     showCurrentTimerDetails() {
         if (!this.api) { new Notice("SolidTime: Plugin not configured correctly."); return; }
         if (!this.activeTimeEntry || !this.activeTimeEntry.start) { // Also check start time
@@ -615,13 +2420,13 @@ export default class SolidTimePlugin extends Plugin {
         const formattedDuration = this.formatDuration(duration);
         const localStartTime = startDateTime.local().format('YYYY-MM-DD HH:mm:ss');
     
-        let project = this.projects.find(p => p.id === this.activeTimeEntry?.project_id);
-        let task = this.tasks.find(t => t.id === this.activeTimeEntry?.task_id);
-        const activeTags = this.tags.filter(t => this.activeTimeEntry?.tags?.includes(t.id));
+        let project = this.orgCache.findProject(this.activeTimeEntry.project_id);
+        let task = this.orgCache.findTask(this.activeTimeEntry.task_id);
+        const activeTags = this.orgCache.findTags(this.activeTimeEntry.tags || []);
 
         let details = `**SolidTime Timer**\n`;
         details += `- Duration: ${formattedDuration}\n`;
-        if (project) { details += `- Project: ${project.name}\n`; }
+        if (project) { details += `- Project: ${this.getProjectLabel(project)}\n`; }
         else if (this.activeTimeEntry.project_id) { details += `- Project: (ID: ...${this.activeTimeEntry.project_id.slice(-6)})\n`; }
         if (task) { details += `- Task: ${task.name}\n`; }
         else if (this.activeTimeEntry.task_id) { details += `- Task: (ID: ...${this.activeTimeEntry.task_id.slice(-6)})\n`; }
@@ -629,8 +2434,11 @@ export default class SolidTimePlugin extends Plugin {
         if (activeTags.length > 0) { details += `- Tags: ${activeTags.map(t => t.name).join(', ')}\n`; }
         else if (this.activeTimeEntry.tags?.length > 0) { details += `- Tags: (IDs present, not cached)\n`; }
         details += `- Billable: ${this.activeTimeEntry.billable ? 'Yes' : 'No'}\n`;
+        const earnings = this.formatEarnings(this.activeTimeEntry, duration, true);
+        if (earnings) { details += `- Earned: ${earnings}\n`; }
         details += `- Started: ${localStartTime}\n`; // Use formatted local time
-        details += `- Org ID: ...${this.activeTimeEntry.organization_id.slice(-6)}`;
+        const orgName = this.getOrganizationName(this.activeTimeEntry.organization_id);
+        details += `- Organization: ${orgName || `(ID: ...${this.activeTimeEntry.organization_id.slice(-6)})`}`;
 
         new Notice(details.replace(/\n/g, '<br/>'), 15000);
 
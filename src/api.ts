@@ -1,40 +1,162 @@
-import { requestUrl, RequestUrlParam, Notice } from 'obsidian';
 import {
     TimeEntryResource,
     ProjectResource,
     TaskResource,
     TagResource,
     PersonalMembershipResource,
+    ApiTokenResource,
+    OrganizationResource,
     TimeEntryStartPayload,
     TimeEntryStopPayload,
     UserResource,         // <-- Add UserResource
     MemberResource,       // <-- Add MemberResource
     PaginatedResponse,
     TagStoreRequest,
+    ProjectStoreRequest,
+    TaskStoreRequest,
+    TaskUpdateRequest,
     TimeEntryListResponse,
-    // Add other needed types like ClientResource if used
+    TimeEntryQuery,
+    TimeEntryStorePayload,
+    TimeEntryUpdatePayload,
+    ClientResource,
 } from './types'; // Adjust path
+import { SolidTimeConfigError, SolidTimeNetworkError, SolidTimeRateLimitError, SolidTimeServerError, createResponseError } from './errors';
+import { HttpResponse, HttpTransport, RequestUrlTransport } from './transport';
+import {
+    Schema,
+    dataEnvelope,
+    paginated,
+    parseResponse,
+    array,
+    userSchema,
+    apiTokenSchema,
+    organizationSchema,
+    membershipSchema,
+    memberSchema,
+    timeEntrySchema,
+    timeEntryListSchema,
+    projectSchema,
+    clientSchema,
+    taskSchema,
+    tagSchema,
+} from './validation';
+
+// The time-entries endpoint pages with limit/offset instead of links
+const TIME_ENTRY_PAGE_SIZE = 500;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// What the endpoint methods pass to request(); url may be relative to the base URL
+interface ApiRequestOptions {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+export interface RetryOptions {
+    maxRetries: number; // Extra attempts after the first one, 0 disables retrying
+    baseDelayMs: number; // First backoff delay, doubled on every further attempt
+    maxDelayMs: number; // Upper bound for a single backoff or Retry-After wait
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
 
 export class SolidTimeApi {
     private apiKey: string;
     private baseUrl: string;
-
-    constructor(apiKey: string, baseUrl: string) {
+    private retryOptions: RetryOptions;
+    private transport: HttpTransport;
+    onWrite: (() => void) | null = null; // Called after every successful POST/PUT/DELETE
+
+    constructor(
+        apiKey: string,
+        baseUrl: string,
+        retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS,
+        transport: HttpTransport = new RequestUrlTransport()
+    ) {
         this.apiKey = apiKey;
         this.baseUrl = baseUrl.replace(/\/$/, ''); // Ensure no trailing slash
+        this.retryOptions = retryOptions;
+        this.transport = transport;
     }
 
+    setRetryOptions(retryOptions: RetryOptions) {
+        this.retryOptions = retryOptions;
+    }
+
+    // Wraps requestOnce with retries for transient failures (network errors, 5xx, 429).
+    // With a schema, 2xx bodies are checked against it, see validation.ts
     private async request<T>(
-        options: RequestUrlParam,
+        options: ApiRequestOptions,
+        allowedNon2xxStatuses: number[] = [],
+        schema?: Schema<T>
+    ): Promise<T | null> {
+        const method = (options.method || 'GET').toUpperCase();
+        for (let attempt = 0; ; attempt++) {
+            try {
+                // requestOnce rewrites url/headers, so every attempt gets a fresh copy
+                const result = await this.requestOnce<T>({ ...options }, allowedNon2xxStatuses, schema);
+                if (method !== 'GET') this.onWrite?.();
+                return result;
+            } catch (error) {
+                const delayMs = this.getRetryDelay(error, method, attempt);
+                if (delayMs === null) throw error;
+                console.warn(`SolidTime: Request failed, retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.retryOptions.maxRetries})`, error);
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    // Returns how long to wait before the next attempt, or null if the error should be thrown.
+    private getRetryDelay(error: unknown, method: string, attempt: number): number | null {
+        if (attempt >= this.retryOptions.maxRetries) return null;
+
+        if (error instanceof SolidTimeRateLimitError) {
+            // The server refused before doing anything, so even POSTs are safe to repeat
+            if (error.retryAfterSeconds !== null) {
+                const waitMs = error.retryAfterSeconds * 1000;
+                // Don't block the caller for minutes, let it fail and try again later
+                return waitMs <= this.retryOptions.maxDelayMs ? waitMs : null;
+            }
+            return this.getBackoffDelay(attempt);
+        }
+
+        // A POST may have been processed before the connection dropped or the server failed,
+        // retrying it could create duplicate time entries
+        if (method === 'POST') return null;
+
+        if (error instanceof SolidTimeNetworkError || error instanceof SolidTimeServerError) {
+            return this.getBackoffDelay(attempt);
+        }
+        return null;
+    }
+
+    // Exponential backoff with jitter, so several clients don't retry in lockstep
+    private getBackoffDelay(attempt: number): number {
+        const exponential = Math.min(this.retryOptions.baseDelayMs * Math.pow(2, attempt), this.retryOptions.maxDelayMs);
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    private async requestOnce<T>(
+        options: ApiRequestOptions,
         // ADD optional parameter: array of status codes to treat as non-errors
-        allowedNon2xxStatuses: number[] = []
+        allowedNon2xxStatuses: number[] = [],
+        schema?: Schema<T>
     ): Promise<T | null> { // Return type might now be null if allowed status occurs
 
         if (!this.apiKey) {
-            throw new Error("SolidTime API Key is not configured.");
+            throw new SolidTimeConfigError("SolidTime API Key is not configured.");
         }
         if (!this.baseUrl) {
-            throw new Error("SolidTime API Base URL is not configured.");
+            throw new SolidTimeConfigError("SolidTime API Base URL is not configured.");
         }
 
         const defaultHeaders = {
@@ -54,86 +176,58 @@ export class SolidTimeApi {
         }
         options.url = finalUrl; // Update options with the final URL
 
+        // Used in error messages, e.g. "GET /v1/users/me"
+        const endpoint = `${options.method || 'GET'} ${finalUrl.replace(this.baseUrl, '').split('?')[0]}`;
+
         // console.log(`DEBUG: Requesting URL: ${options.method || 'GET'} ${finalUrl}`);
         // console.log(`DEBUG: Allowed Non-2xx Statuses: [${allowedNon2xxStatuses.join(', ')}]`);
 
+        let response: HttpResponse;
         try {
-            options.throw = false;
-            const response = await requestUrl(options);
-
-            const isAllowedNon2xx = allowedNon2xxStatuses.includes(response.status);
-            // console.log(`DEBUG: Response Status: ${response.status}, Is Allowed Non-2xx? ${isAllowedNon2xx}`);
-
-            // Check if status is successful (2xx) OR if it's in the allowed non-2xx list
-            if ((response.status >= 200 && response.status < 300) || isAllowedNon2xx) {
+            response = await this.transport.request({
+                url: finalUrl,
+                method: options.method || 'GET',
+                headers: options.headers,
+                body: options.body,
+            });
+        } catch (error) {
+            // No response at all: network errors (fetch failed, DNS, CORS etc.)
+            console.error('SolidTime API Request Failed:', error);
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new SolidTimeNetworkError(`SolidTime Network Error: ${reason}`, endpoint, error);
+        }
 
-                // Handle specific known statuses if needed
-                if (response.status === 204) {
-                    // Cast through unknown to satisfy the compiler for this specific case
-                    return null as unknown as T; // Still handle 204 specifically
-                }
-                // If it was an allowed non-2xx status (like 404), return null
-                // The caller needs to check the response status if it cares *which* allowed status it was
-                // For our 404 case in getActiveTimeEntry, returning null is the desired outcome.
-                if (isAllowedNon2xx) {
-                    // console.log(`DEBUG: Status ${response.status} was in allowed list, returning null.`); // Debug log
-                    return null;
-                }
+        const isAllowedNon2xx = allowedNon2xxStatuses.includes(response.status);
+        // console.log(`DEBUG: Response Status: ${response.status}, Is Allowed Non-2xx? ${isAllowedNon2xx}`);
 
-                // Otherwise (it was a 2xx), parse JSON
-                // Check for body before parsing (optional but safer)
-                if (response.arrayBuffer?.byteLength > 0 || response.text) {
-                    return response.json as T;
-                } else {
-                    // Return null for 2xx with empty body too
-                    return null;
-                }
+        // Check if status is successful (2xx) OR if it's in the allowed non-2xx list
+        if ((response.status >= 200 && response.status < 300) || isAllowedNon2xx) {
 
-            } else {
-                // --- Status was NOT successful AND NOT in the allowed list ---
-                // Log the error response details
-                console.error('SolidTime API Error Response:', response);
-                let errorMsg = `SolidTime API Error: ${response.status}`;
-
-                let errorJson: any = null; // Define errorJson to potentially hold parsed error
-
-                // Attempt to parse the error response body for more details
-                try {
-                    // Check if response.json is available and not empty before trying to parse
-                    if (response.arrayBuffer?.byteLength > 0 || response.text) {
-                        errorJson = response.json; // Try parsing JSON
-                    }
-                    // Append message and errors if available in the parsed JSON
-                    if (errorJson && errorJson.message) {
-                        errorMsg += ` - ${errorJson.message}`;
-                        if (errorJson.errors) {
-                            errorMsg += ` (${JSON.stringify(errorJson.errors)})`;
-                        }
-                    } else if (response.text) { // Fallback to text if no JSON message
-                        errorMsg += ` - ${response.text.substring(0, 100)}`; // Show snippet
-                    }
-                } catch (e) {
-                    // Handle cases where the error response wasn't valid JSON
-                    console.warn("SolidTime: Could not parse error response as JSON.", e);
-                    if (response.text) { // Fallback to text if JSON parsing failed
-                        errorMsg += ` - ${response.text.substring(0, 100)}`; // Show snippet of text response
-                    }
-                }
-                // Show a notice to the user about the error
-                new Notice(errorMsg, 5000);
-                // Throw an error to be caught by the calling function
-                throw new Error(errorMsg);
+            // Handle specific known statuses if needed
+            if (response.status === 204) {
+                // Cast through unknown to satisfy the compiler for this specific case
+                return null as unknown as T; // Still handle 204 specifically
             }
-        } catch (error) {
-            // Catch network errors from requestUrl or errors thrown above
-            console.error('SolidTime API Request Failed:', error);
-            // Avoid showing duplicate notices if the error was already created and includes the status code
-            if (error instanceof Error && !error.message.startsWith('SolidTime API Error:')) {
-                // Likely a network error (fetch failed, DNS, CORS etc.)
-                new Notice(`SolidTime Network Error: ${error.message}`, 5000);
+            // If it was an allowed non-2xx status (like 404), return null
+            // The caller needs to check the response status if it cares *which* allowed status it was
+            // For our 404 case in getActiveTimeEntry, returning null is the desired outcome.
+            if (isAllowedNon2xx) {
+                return null;
             }
-            throw error; // Re-throw the error so the calling function knows something went wrong
+
+            // Otherwise (it was a 2xx), return the parsed JSON
+            // The transport gives null for an empty (or non-JSON) body
+            if (!schema) return response.json as T | null;
+            // An HTML page (e.g. a wrong base URL or a proxy login) fails here too, not in the caller
+            return parseResponse(schema, response.json, response.status, endpoint);
         }
+
+        // --- Status was NOT successful AND NOT in the allowed list ---
+        console.error('SolidTime API Error Response:', response);
+
+        const retryAfter = response.headers['retry-after'] ?? null;
+        // The caller decides whether to notify the user
+        throw createResponseError(response.status, response.json, response.text || null, endpoint, retryAfter);
     }
 
     // --- User & Membership ---
@@ -143,11 +237,20 @@ export class SolidTimeApi {
         const response = await this.request<{ data: UserResource }>({
             url: '/v1/users/me',
             method: 'GET',
-        });
+        }, [], dataEnvelope(userSchema));
         if (!response?.data) throw new Error("API did not return expected data for /users/me.");
         return response.data;
     }
 
+    // All personal access tokens of the user, see apiToken.ts for finding the one in use
+    async getApiTokens(): Promise<ApiTokenResource[]> {
+        const response = await this.request<{ data: ApiTokenResource[] }>({
+            url: '/v1/users/me/api-tokens',
+            method: 'GET',
+        }, [], dataEnvelope(array(apiTokenSchema)));
+        return response?.data || [];
+    }
+
 
     // --- Add getMembers ---
     // Note: This returns a paginated list! Needs pagination handling.
@@ -157,13 +260,9 @@ export class SolidTimeApi {
         if (!orgId) return [];
         // Use fetchAllPaginated helper for member lists
         const initialUrl = `/v1/organizations/${orgId}/members`;
-        try {
-            // Assuming MemberResource list uses the standard PaginatedResponse structure
-            return await this.fetchAllPaginated<MemberResource>(initialUrl);
-        } catch (error) {
-            console.error(`SolidTime: Failed to fetch members for org ${orgId}`, error);
-            return []; // Return empty on error
-        }
+        // Assuming MemberResource list uses the standard PaginatedResponse structure
+        // Errors propagate so callers can tell "not a member" apart from "request failed"
+        return this.fetchAllPaginated(initialUrl, memberSchema);
 
         /* // --- Simpler fetch (only first page) - replace with above for pagination ---
          const response = await this.request<PaginatedResponse<MemberResource>>({
@@ -179,45 +278,30 @@ export class SolidTimeApi {
         const response = await this.request<{ data: PersonalMembershipResource[] }>({
             url: '/v1/users/me/memberships',
             method: 'GET',
-        });
+        }, [], dataEnvelope(array(membershipSchema)));
         return response?.data || [];
     }
 
+    // Holds the organization's billable rate and currency
+    async getOrganization(orgId: string): Promise<OrganizationResource> {
+        if (!orgId) throw new Error("Organization ID is required to fetch an organization.");
+        const response = await this.request<{ data: OrganizationResource }>({
+            url: `/v1/organizations/${orgId}`,
+            method: 'GET',
+        }, [], dataEnvelope(organizationSchema));
+        if (!response?.data) throw new Error("API did not return expected data for organization.");
+        return response.data;
+    }
+
     async getActiveTimeEntry(): Promise<TimeEntryResource | null> {
-        try {
-            // This endpoint is independent of organization
-            const response = await this.request<{ data: TimeEntryResource }>({
-                url: '/v1/users/me/time-entries/active',
-                method: 'GET',
-            }, [404]);
-            if (response === null) { return null; } // Handles 404 or 204 from request
-            return response?.data || null;
-
-        } catch (error: any) {
-            console.error("SolidTime: Unexpected error fetching active time entry", error);
-            throw error;
-            // let is404 = false;
-            // if (error instanceof Error) {
-            //     // Check if the message we constructed in request() includes 404
-            //     if (error.message && error.message.includes("status 404")) {
-            //         is404 = true;
-            //     }
-            //     // Alternatively, if the original error object is accessible (depends on requestUrl implementation)
-            //     // you might check error.status directly, e.g., if (error.status === 404) is404 = true;
-            //     // But checking the message is safer based on our current request wrapper.
-            // }
-
-            // if (is404) {
-            //     // It's expected that 404 means no active timer, return null silently
-            //     // console.log("SolidTime: No active timer found (404)."); // Optional debug log, remove for release
-            //     return null;
-            // } else {
-            //     // For any other error (network, auth, server error), log it and re-throw
-            //     console.error("SolidTime: Error fetching active time entry (non-404)", error);
-            //     // The Notice might already be shown by the request method, so avoid duplicating it here.
-            //     throw error;
-            // }
-        }
+        // This endpoint is independent of organization
+        // 404 means no timer is running, every other failure is thrown as a typed SolidTimeError
+        const response = await this.request<{ data: TimeEntryResource }>({
+            url: '/v1/users/me/time-entries/active',
+            method: 'GET',
+        }, [404], dataEnvelope(timeEntrySchema));
+        if (response === null) { return null; } // Handles 404 or 204 from request
+        return response?.data || null;
     }
 
     // --- Time Entries ---
@@ -230,7 +314,7 @@ export class SolidTimeApi {
             url: `/v1/organizations/${orgId}/time-entries`,
             method: 'POST',
             body: JSON.stringify(payload),
-        });
+        }, [], dataEnvelope(timeEntrySchema));
 
         if (!response?.data) {
             throw new Error("API did not return expected data on start timer.");
@@ -247,7 +331,7 @@ export class SolidTimeApi {
             url: `/v1/organizations/${orgId}/time-entries/${timeEntryId}`,
             method: 'PUT',
             body: JSON.stringify(payload),
-        });
+        }, [], dataEnvelope(timeEntrySchema));
 
         if (!response?.data) {
             throw new Error("API did not return expected data on stop timer.");
@@ -256,9 +340,126 @@ export class SolidTimeApi {
         return response.data;
     }
 
+    // --- Manual Time Entries ---
+
+    async createTimeEntry(orgId: string, payload: TimeEntryStorePayload): Promise<TimeEntryResource> {
+        if (!orgId) throw new Error("Organization ID is required to create a time entry.");
+        if (!payload.member_id) throw new Error("Member ID is required to create a time entry.");
+
+        const response = await this.request<{ data: TimeEntryResource }>({
+            url: `/v1/organizations/${orgId}/time-entries`,
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }, [], dataEnvelope(timeEntrySchema));
+
+        if (!response?.data) {
+            throw new Error("API did not return expected data on create time entry.");
+        }
+
+        return response.data;
+    }
+
+    async updateTimeEntry(orgId: string, timeEntryId: string, payload: TimeEntryUpdatePayload): Promise<TimeEntryResource> {
+        if (!orgId) throw new Error("Organization ID is required to update a time entry.");
+        if (!timeEntryId) throw new Error("Time Entry ID is required to update a time entry.");
+
+        const response = await this.request<{ data: TimeEntryResource }>({
+            url: `/v1/organizations/${orgId}/time-entries/${timeEntryId}`,
+            method: 'PUT',
+            body: JSON.stringify(payload),
+        }, [], dataEnvelope(timeEntrySchema));
+
+        if (!response?.data) {
+            throw new Error("API did not return expected data on update time entry.");
+        }
+
+        return response.data;
+    }
+
+    async deleteTimeEntry(orgId: string, timeEntryId: string): Promise<void> {
+        if (!orgId) throw new Error("Organization ID is required to delete a time entry.");
+        if (!timeEntryId) throw new Error("Time Entry ID is required to delete a time entry.");
+
+        // Returns 204 No Content on success
+        await this.request<null>({
+            url: `/v1/organizations/${orgId}/time-entries/${timeEntryId}`,
+            method: 'DELETE',
+        });
+    }
+
+    // --- Time Entry History ---
+
+    // Fetches a single page of time entries. Use getAllTimeEntries to follow the offset pagination.
+    async getTimeEntries(orgId: string, query: TimeEntryQuery = {}): Promise<TimeEntryListResponse> {
+        if (!orgId) return { data: [], meta: { total: 0 } };
+
+        const url = `/v1/organizations/${orgId}/time-entries${this.buildTimeEntryQueryString(query)}`;
+        const response = await this.request<TimeEntryListResponse>({
+            url: url,
+            method: 'GET',
+        }, [], timeEntryListSchema);
+
+        return {
+            data: Array.isArray(response?.data) ? response!.data : [],
+            meta: { total: response?.meta?.total ?? 0 },
+        };
+    }
+
+    // Pages through all entries matching the query. query.limit only sets the page size (capped at
+    // TIME_ENTRY_PAGE_SIZE), every page is still fetched: maxItems is what caps the result.
+    async getAllTimeEntries(orgId: string, query: TimeEntryQuery = {}, maxItems = 10000): Promise<TimeEntryResource[]> {
+        if (!orgId) return [];
+        const pageSize = Math.min(query.limit ?? TIME_ENTRY_PAGE_SIZE, TIME_ENTRY_PAGE_SIZE);
+        let offset = query.offset ?? 0;
+        let allEntries: TimeEntryResource[] = [];
+
+        while (allEntries.length < maxItems) {
+            const page = await this.getTimeEntries(orgId, { ...query, limit: pageSize, offset: offset });
+            allEntries = allEntries.concat(page.data);
+            offset += page.data.length;
+
+            // Stop on a short page or once the reported total has been reached
+            if (page.data.length < pageSize || offset >= page.meta.total) break;
+        }
+
+        if (allEntries.length > maxItems) {
+            allEntries = allEntries.slice(0, maxItems);
+        }
+        return allEntries;
+    }
+
+    // Convenience wrapper for "what did I do between A and B" queries.
+    async getTimeEntriesInRange(orgId: string, start: string, end: string, query: TimeEntryQuery = {}): Promise<TimeEntryResource[]> {
+        return this.getAllTimeEntries(orgId, { ...query, start: start, end: end });
+    }
+
+    private buildTimeEntryQueryString(query: TimeEntryQuery): string {
+        const params: string[] = [];
+        const add = (key: string, value: string) => {
+            params.push(`${key}=${encodeURIComponent(value)}`);
+        };
+        const addList = (key: string, values?: string[]) => {
+            (values || []).forEach(value => add(`${key}[]`, value));
+        };
+
+        if (query.start) add('start', query.start);
+        if (query.end) add('end', query.end);
+        if (query.memberId) add('member_id', query.memberId);
+        addList('member_ids', query.memberIds);
+        addList('project_ids', query.projectIds);
+        addList('task_ids', query.taskIds);
+        addList('tag_ids', query.tagIds);
+        if (query.billable !== undefined) add('billable', query.billable ? 'true' : 'false');
+        if (query.active !== undefined) add('active', query.active ? 'true' : 'false');
+        if (query.limit !== undefined) add('limit', String(query.limit));
+        if (query.offset !== undefined) add('offset', String(query.offset));
+
+        return params.length > 0 ? `?${params.join('&')}` : '';
+    }
+
     // --- Data Fetching (Implement pagination properly) ---
 
-    async fetchAllPaginated<T>(initialUrl: string): Promise<T[]> {
+    async fetchAllPaginated<T>(initialUrl: string, schema: Schema<T>): Promise<T[]> {
         let allData: T[] = [];
         let nextPageUrl: string | null = initialUrl;
 
@@ -268,7 +469,7 @@ export class SolidTimeApi {
                 url: nextPageUrl,
                 method: 'GET',
                 // No allowed non-2xx here unless specifically needed for a paginated endpoint
-            });
+            }, [], paginated(schema));
 
             if (response && Array.isArray(response.data)) {
                 // Only process if response and response.data are valid
@@ -302,16 +503,23 @@ export class SolidTimeApi {
         // Fetch only non-archived projects by default
         // The API needs pagination handling.
         const initialUrl = `/v1/organizations/${orgId}/projects?archived=false`;
-        return this.fetchAllPaginated<ProjectResource>(initialUrl);
+        return this.fetchAllPaginated(initialUrl, projectSchema);
+    }
+
+    async getClients(orgId: string): Promise<ClientResource[]> {
+        if (!orgId) return [];
+        // Archived clients are skipped, their projects are usually archived too
+        const initialUrl = `/v1/organizations/${orgId}/clients?archived=false`;
+        return this.fetchAllPaginated(initialUrl, clientSchema);
     }
 
-    async getTasks(orgId: string, projectId?: string | null): Promise<TaskResource[]> {
+    async getTasks(orgId: string, projectId?: string | null, done: 'true' | 'false' | 'all' = 'false'): Promise<TaskResource[]> {
         if (!orgId) return [];
-        let url = `/v1/organizations/${orgId}/tasks?done=false`; // Default to not done
+        let url = `/v1/organizations/${orgId}/tasks?done=${done}`; // Default to not done
         if (projectId) {
             url += `&project_id=${projectId}`;
         }
-        return this.fetchAllPaginated<TaskResource>(url);
+        return this.fetchAllPaginated(url, taskSchema);
     }
 
     async getTags(orgId: string): Promise<TagResource[]> {
@@ -321,7 +529,7 @@ export class SolidTimeApi {
             const response = await this.request<{ data: TagResource[] }>({
                 url: `/v1/organizations/${orgId}/tags`,
                 method: 'GET'
-            });
+            }, [], dataEnvelope(array(tagSchema)));
             return response?.data || [];
         } catch (e) {
             console.error("Failed to fetch tags", e);
@@ -340,9 +548,49 @@ export class SolidTimeApi {
             url: `/v1/organizations/${orgId}/tags`,
             method: 'POST',
             body: JSON.stringify(payload),
-        });
+        }, [], dataEnvelope(tagSchema));
         if (!response?.data) throw new Error("API did not return expected data on create tag.");
         return response.data;
     }
 
+    async createProject(orgId: string, payload: ProjectStoreRequest): Promise<ProjectResource> {
+        if (!orgId) throw new Error("Organization ID is required to create a project.");
+        if (!payload.name) throw new Error("Project name cannot be empty.");
+
+        const response = await this.request<{ data: ProjectResource }>({
+            url: `/v1/organizations/${orgId}/projects`,
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }, [], dataEnvelope(projectSchema));
+        if (!response?.data) throw new Error("API did not return expected data on create project.");
+        return response.data;
+    }
+
+    async createTask(orgId: string, payload: TaskStoreRequest): Promise<TaskResource> {
+        if (!orgId) throw new Error("Organization ID is required to create a task.");
+        if (!payload.name) throw new Error("Task name cannot be empty.");
+        if (!payload.project_id) throw new Error("Project ID is required to create a task.");
+
+        const response = await this.request<{ data: TaskResource }>({
+            url: `/v1/organizations/${orgId}/tasks`,
+            method: 'POST',
+            body: JSON.stringify(payload),
+        }, [], dataEnvelope(taskSchema));
+        if (!response?.data) throw new Error("API did not return expected data on create task.");
+        return response.data;
+    }
+
+    async updateTask(orgId: string, taskId: string, payload: TaskUpdateRequest): Promise<TaskResource> {
+        if (!orgId) throw new Error("Organization ID is required to update a task.");
+        if (!taskId) throw new Error("Task ID is required to update a task.");
+
+        const response = await this.request<{ data: TaskResource }>({
+            url: `/v1/organizations/${orgId}/tasks/${taskId}`,
+            method: 'PUT',
+            body: JSON.stringify(payload),
+        }, [], dataEnvelope(taskSchema));
+        if (!response?.data) throw new Error("API did not return expected data on update task.");
+        return response.data;
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { ApiTokenResource } from './types';
+import { SolidTimeAuthError } from './errors';
+
+// What we know about the configured API token. SolidTime issues OAuth personal access tokens,
+// which are JWTs: the payload names the token (jti = ApiTokenResource.id), its expiry and scopes.
+// The token list from /users/me/api-tokens adds the name and the revoked flag.
+
+export interface TokenClaims {
+    id: string | null; // jti
+    expiresAt: string | null; // ISO 8601, from exp
+    scopes: string[];
+}
+
+export interface ApiTokenInfo {
+    claims: TokenClaims | null; // null if the key isn't a JWT (e.g. a proxy's own token)
+    token: ApiTokenResource | null; // null if the list couldn't be loaded or has no matching entry
+    error: string | null; // Why the token list couldn't be loaded
+}
+
+// Required organization permission per endpoint, for explaining a 403.
+// Names as in SolidTime's role permissions.
+const ENDPOINT_PERMISSIONS: { method: string; pattern: RegExp; permission: string }[] = [
+    { method: 'GET', pattern: /\/members$/, permission: 'members:view' },
+    { method: 'GET', pattern: /\/projects$/, permission: 'projects:view' },
+    { method: 'POST', pattern: /\/projects$/, permission: 'projects:create' },
+    { method: 'GET', pattern: /\/clients$/, permission: 'clients:view' },
+    { method: 'GET', pattern: /\/tasks$/, permission: 'tasks:view' },
+    { method: 'POST', pattern: /\/tasks$/, permission: 'tasks:create' },
+    { method: 'PUT', pattern: /\/tasks\/[^/]+$/, permission: 'tasks:update' },
+    { method: 'GET', pattern: /\/tags$/, permission: 'tags:view' },
+    { method: 'POST', pattern: /\/tags$/, permission: 'tags:create' },
+    { method: 'GET', pattern: /\/time-entries$/, permission: 'time-entries:view:own' },
+    { method: 'POST', pattern: /\/time-entries$/, permission: 'time-entries:create:own' },
+    { method: 'PUT', pattern: /\/time-entries\/[^/]+$/, permission: 'time-entries:update:own' },
+    { method: 'DELETE', pattern: /\/time-entries\/[^/]+$/, permission: 'time-entries:delete:own' },
+];
+
+// Reads the JWT payload without verifying it, it's only used for display and warnings
+export function decodeTokenClaims(apiKey: string): TokenClaims | null {
+    const parts = apiKey.split('.');
+    if (parts.length !== 3) return null;
+    try {
+        const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+        const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+        const payload = JSON.parse(atob(padded));
+        if (!payload || typeof payload !== 'object') return null;
+        return {
+            id: typeof payload.jti === 'string' ? payload.jti : null,
+            expiresAt: typeof payload.exp === 'number' ? new Date(payload.exp * 1000).toISOString() : null,
+            scopes: Array.isArray(payload.scopes) ? payload.scopes.map(String) : [],
+        };
+    } catch (e) {
+        return null;
+    }
+}
+
+export function findCurrentToken(tokens: ApiTokenResource[], claims: TokenClaims | null): ApiTokenResource | null {
+    if (!claims?.id) return null;
+    return tokens.find(token => token.id === claims.id) || null;
+}
+
+// The listed expiry wins, the JWT's exp covers tokens we couldn't look up
+export function getTokenExpiry(info: ApiTokenInfo | null): string | null {
+    if (!info) return null;
+    if (info.token) return info.token.expires_at;
+    return info.claims?.expiresAt ?? null;
+}
+
+export function getTokenScopes(info: ApiTokenInfo | null): string[] {
+    return info?.token?.scopes ?? info?.claims?.scopes ?? [];
+}
+
+// Whole days left, negative once expired
+export function daysUntil(isoTimestamp: string, now: number = Date.now()): number {
+    return Math.floor((Date.parse(isoTimestamp) - now) / (24 * 60 * 60 * 1000));
+}
+
+export function isTokenExpired(info: ApiTokenInfo | null, now: number = Date.now()): boolean {
+    const expiresAt = getTokenExpiry(info);
+    return !!expiresAt && Date.parse(expiresAt) <= now;
+}
+
+// error.endpoint looks like "POST /v1/organizations/<id>/projects"
+export function requiredPermissionFor(endpoint: string | null): string | null {
+    if (!endpoint) return null;
+    const [method, path] = endpoint.split(' ');
+    const match = ENDPOINT_PERMISSIONS.find(entry => entry.method === method && entry.pattern.test(path || ''));
+    return match ? match.permission : null;
+}
+
+// Explains a 401/403 using the token metadata, e.g. which permission a refused endpoint needs
+export function explainAuthError(error: SolidTimeAuthError, info: ApiTokenInfo | null): string {
+    const tokenName = info?.token ? `"${info.token.name}"` : 'Your API token';
+
+    if (error.status === 401) {
+        if (info?.token?.revoked) {
+            return `${tokenName} has been revoked. Create a new API token in SolidTime and enter it in the plugin settings.`;
+        }
+        const expiresAt = getTokenExpiry(info);
+        if (expiresAt && isTokenExpired(info)) {
+            return `${tokenName} expired on ${expiresAt.substring(0, 10)}. Create a new API token in SolidTime and enter it in the plugin settings.`;
+        }
+        return "Authentication failed (401). Check your API key.";
+    }
+
+    const permission = requiredPermissionFor(error.endpoint);
+    let message = `Permission denied (403) for ${error.endpoint || 'this request'}.`;
+    if (permission) {
+        message += ` It needs the "${permission}" permission.`;
+    }
+    const scopes = getTokenScopes(info);
+    if (scopes.length > 0 && !scopes.includes('*')) {
+        message += ` ${tokenName} is limited to the scopes ${scopes.join(', ')}, create a token with more access or ask an organization admin.`;
+    } else {
+        message += " Your token isn't limited by scopes, so your role in this organization doesn't allow it. Ask an organization admin.";
+    }
+    return message;
+}
@@ -0,0 +1,42 @@
+import { MemberResource, OrganizationResource, ProjectResource } from './types';
+
+// Money value of billable time. SolidTime rates are cents per hour and resolve like on the
+// server: the project's rate, else the member's, else the organization's.
+
+export interface BillableRate {
+    rate: number; // Cents per hour
+    source: 'project' | 'member' | 'organization';
+}
+
+export function resolveBillableRate(
+    project: ProjectResource | null,
+    member: MemberResource | null,
+    organization: OrganizationResource | null
+): BillableRate | null {
+    if (project?.billable_rate != null) return { rate: project.billable_rate, source: 'project' };
+    if (member?.billable_rate != null) return { rate: member.billable_rate, source: 'member' };
+    if (organization?.billable_rate != null) return { rate: organization.billable_rate, source: 'organization' };
+    return null;
+}
+
+// Employees only see rates (and so money values) when the organization allows it.
+// Without the organization resource we can't tell, so employees see nothing.
+export function canSeeBillableRates(role: string | null, organization: OrganizationResource | null): boolean {
+    if (role !== 'employee') return true;
+    return !!organization?.employees_can_see_billable_rates;
+}
+
+// Cents earned for the given duration, rounded to whole cents
+export function calculateEarnings(durationMs: number, rate: number): number {
+    if (isNaN(durationMs) || durationMs <= 0) return 0;
+    return Math.round(durationMs / (60 * 60 * 1000) * rate);
+}
+
+export function formatMoney(cents: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency }).format(cents / 100);
+    } catch (e) {
+        // Unknown currency code
+        return `${(cents / 100).toFixed(2)} ${currency}`;
+    }
+}
@@ -0,0 +1,70 @@
+// Stops background polling after repeated failures and lets it recover on its own.
+//
+// closed    -> requests go through, failures are counted
+// open      -> requests are skipped until the cooldown has passed
+// half-open -> one trial request; success closes the circuit, failure re-opens it with a longer cooldown
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+    state: CircuitState = 'closed';
+    consecutiveFailures = 0;
+    private openUntil = 0; // Epoch ms
+    private currentCooldownMs: number;
+    private failureThreshold: number;
+    private baseCooldownMs: number;
+    private maxCooldownMs: number;
+
+    constructor(failureThreshold: number, baseCooldownMs: number, maxCooldownMs: number) {
+        this.failureThreshold = failureThreshold;
+        this.baseCooldownMs = baseCooldownMs;
+        this.maxCooldownMs = maxCooldownMs;
+        this.currentCooldownMs = baseCooldownMs;
+    }
+
+    // Whether a request may be made right now. Moves an expired open circuit to half-open.
+    canRequest(now = Date.now()): boolean {
+        if (this.state === 'open' && now >= this.openUntil) {
+            this.state = 'half-open';
+        }
+        return this.state !== 'open';
+    }
+
+    // Read-only check that doesn't start a half-open trial
+    isPaused(now = Date.now()): boolean {
+        return this.state === 'open' && now < this.openUntil;
+    }
+
+    recordSuccess() {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.currentCooldownMs = this.baseCooldownMs;
+        this.openUntil = 0;
+    }
+
+    recordFailure(now = Date.now()) {
+        this.consecutiveFailures++;
+        if (this.state === 'half-open') {
+            // The trial request failed, back off further
+            this.currentCooldownMs = Math.min(this.currentCooldownMs * 2, this.maxCooldownMs);
+            this.open(this.currentCooldownMs, now);
+        } else if (this.consecutiveFailures >= this.failureThreshold) {
+            this.open(this.currentCooldownMs, now);
+        }
+    }
+
+    // Opens the circuit for at least the given time, e.g. for a 429 Retry-After
+    tripFor(ms: number, now = Date.now()) {
+        this.open(Math.max(ms, 0), now);
+    }
+
+    // Milliseconds until the next trial request, 0 if not open
+    getRetryInMs(now = Date.now()): number {
+        return this.state === 'open' ? Math.max(0, this.openUntil - now) : 0;
+    }
+
+    private open(ms: number, now: number) {
+        this.state = 'open';
+        this.openUntil = Math.max(this.openUntil, now + ms);
+    }
+}
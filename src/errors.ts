@@ -0,0 +1,185 @@
+// Error types thrown by SolidTimeApi. Callers branch on these with instanceof
+// and decide themselves whether (and how) to tell the user.
+
+export class SolidTimeError extends Error {
+    status: number | null; // HTTP status, null if no response was received
+    body: unknown; // Parsed JSON body of the error response, if any
+    endpoint: string | null; // "METHOD /path" of the failed request
+
+    constructor(message: string, status: number | null = null, body: unknown = null, endpoint: string | null = null) {
+        super(message);
+        this.name = 'SolidTimeError';
+        this.status = status;
+        this.body = body;
+        this.endpoint = endpoint;
+    }
+}
+
+// The plugin itself is missing the API key or base URL
+export class SolidTimeConfigError extends SolidTimeError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SolidTimeConfigError';
+    }
+}
+
+// 401 (bad/expired token) or 403 (token lacks permission)
+export class SolidTimeAuthError extends SolidTimeError {
+    constructor(message: string, status: number, body: unknown, endpoint: string | null) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeAuthError';
+    }
+}
+
+// 422, fieldErrors maps the request field to its messages
+export class SolidTimeValidationError extends SolidTimeError {
+    fieldErrors: Record<string, string[]>;
+
+    constructor(message: string, status: number, body: unknown, endpoint: string | null, fieldErrors: Record<string, string[]>) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeValidationError';
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+export class SolidTimeNotFoundError extends SolidTimeError {
+    constructor(message: string, status: number, body: unknown, endpoint: string | null) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeNotFoundError';
+    }
+}
+
+// 429, retryAfterSeconds comes from the Retry-After header when present
+export class SolidTimeRateLimitError extends SolidTimeError {
+    retryAfterSeconds: number | null;
+
+    constructor(message: string, status: number, body: unknown, endpoint: string | null, retryAfterSeconds: number | null) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeRateLimitError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+// 5xx
+export class SolidTimeServerError extends SolidTimeError {
+    constructor(message: string, status: number, body: unknown, endpoint: string | null) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeServerError';
+    }
+}
+
+// No response at all (offline, DNS, TLS, CORS...)
+export class SolidTimeNetworkError extends SolidTimeError {
+    cause: unknown;
+
+    constructor(message: string, endpoint: string | null, cause: unknown) {
+        super(message, null, null, endpoint);
+        this.name = 'SolidTimeNetworkError';
+        this.cause = cause;
+    }
+}
+
+// A 2xx response whose body doesn't have the shape src/types.ts declares, see validation.ts.
+// Usually means the server runs a SolidTime version with a changed API.
+export class SolidTimeResponseError extends SolidTimeError {
+    field: string; // Path of the offending value, e.g. "data[3].organization_id"
+    expected: string; // e.g. "a string"
+
+    constructor(message: string, status: number, body: unknown, endpoint: string | null, field: string, expected: string) {
+        super(message, status, body, endpoint);
+        this.name = 'SolidTimeResponseError';
+        this.field = field;
+        this.expected = expected;
+    }
+}
+
+// Builds the matching error class for a non-2xx response
+export function createResponseError(
+    status: number,
+    body: unknown,
+    text: string | null,
+    endpoint: string | null,
+    retryAfterHeader: string | null = null
+): SolidTimeError {
+    const json = (body && typeof body === 'object') ? body as { message?: unknown; errors?: unknown } : null;
+    let message = `SolidTime API Error: ${status}`;
+    if (json && typeof json.message === 'string') {
+        message += ` - ${json.message}`;
+    } else if (text) {
+        message += ` - ${text.substring(0, 100)}`; // Show snippet
+    }
+
+    if (status === 401 || status === 403) {
+        return new SolidTimeAuthError(message, status, body, endpoint);
+    }
+    if (status === 404) {
+        return new SolidTimeNotFoundError(message, status, body, endpoint);
+    }
+    if (status === 422) {
+        const fieldErrors: Record<string, string[]> = {};
+        if (json?.errors && typeof json.errors === 'object') {
+            Object.entries(json.errors as Record<string, unknown>).forEach(([field, messages]) => {
+                fieldErrors[field] = Array.isArray(messages) ? messages.map(String) : [String(messages)];
+            });
+        }
+        return new SolidTimeValidationError(message, status, body, endpoint, fieldErrors);
+    }
+    if (status === 429) {
+        return new SolidTimeRateLimitError(message, status, body, endpoint, parseRetryAfter(retryAfterHeader));
+    }
+    if (status >= 500) {
+        return new SolidTimeServerError(message, status, body, endpoint);
+    }
+    return new SolidTimeError(message, status, body, endpoint);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(0, Math.round((date - Date.now()) / 1000));
+    return null;
+}
+
+// Failures that are expected to go away on their own (retry/backoff, circuit breaker)
+export function isTransientError(error: unknown): boolean {
+    return error instanceof SolidTimeNetworkError
+        || error instanceof SolidTimeServerError
+        || error instanceof SolidTimeRateLimitError;
+}
+
+// Short, user-facing explanation for Notices
+export function describeError(error: unknown): string {
+    if (error instanceof SolidTimeAuthError) {
+        return error.status === 403
+            ? "Permission denied (403). Your API token may not be allowed to do this."
+            : "Authentication failed (401). Check your API key.";
+    }
+    if (error instanceof SolidTimeValidationError) {
+        const fields = Object.entries(error.fieldErrors).map(([field, messages]) => `${field}: ${messages.join(' ')}`);
+        return fields.length > 0 ? `Invalid data - ${fields.join('; ')}` : error.message;
+    }
+    if (error instanceof SolidTimeNotFoundError) {
+        return "Not found (404). It may have been deleted in SolidTime.";
+    }
+    if (error instanceof SolidTimeRateLimitError) {
+        return error.retryAfterSeconds !== null
+            ? `Too many requests, try again in ${error.retryAfterSeconds}s.`
+            : "Too many requests, try again shortly.";
+    }
+    if (error instanceof SolidTimeServerError) {
+        return `SolidTime server error (${error.status}). Try again later.`;
+    }
+    if (error instanceof SolidTimeNetworkError) {
+        return "Could not reach SolidTime. Check your connection and base URL.";
+    }
+    if (error instanceof SolidTimeResponseError) {
+        return `Unexpected response from SolidTime (${error.endpoint}): ${error.field} should be ${error.expected}. The server may run an incompatible SolidTime version.`;
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+    return String(error);
+}
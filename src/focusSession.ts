@@ -0,0 +1,56 @@
+import { TimeEntryResource } from './types';
+
+// Pomodoro style focus sessions: work phases alternate with breaks, every Nth break is a long one.
+// Only keeps the clock, SolidTimePlugin decides what happens to the time entry at each boundary.
+
+export type FocusPhase = 'work' | 'break';
+
+export interface FocusDurations {
+    workMs: number;
+    shortBreakMs: number;
+    longBreakMs: number;
+    longBreakEvery: number; // Work phases per long break, 0 for short breaks only
+}
+
+export class FocusSession {
+    phase: FocusPhase = 'work';
+    phaseEndsAt: number; // Epoch ms
+    completedWorkPhases = 0; // In this session, the per-day count lives in the settings
+    workEntry: TimeEntryResource | null = null; // Stopped for the break, restarted when work resumes
+    breakEntryId: string | null = null; // Entry tracking the break on the break project, if any
+    private durations: FocusDurations;
+
+    constructor(durations: FocusDurations, now: number = Date.now()) {
+        this.durations = durations;
+        this.phaseEndsAt = now + durations.workMs;
+    }
+
+    getRemainingMs(now: number = Date.now()): number {
+        return Math.max(0, this.phaseEndsAt - now);
+    }
+
+    isDue(now: number = Date.now()): boolean {
+        return now >= this.phaseEndsAt;
+    }
+
+    // True if the break after the current work phase is a long one
+    isLongBreakNext(): boolean {
+        const every = this.durations.longBreakEvery;
+        return every > 0 && (this.completedWorkPhases + 1) % every === 0;
+    }
+
+    // Switches to the next phase. The next phase starts at `at`, which is the boundary itself
+    // when called on time, so late ticks (e.g. after sleep) don't shift the schedule.
+    advance(at: number = this.phaseEndsAt): FocusPhase {
+        if (this.phase === 'work') {
+            const breakMs = this.isLongBreakNext() ? this.durations.longBreakMs : this.durations.shortBreakMs;
+            this.completedWorkPhases++;
+            this.phase = 'break';
+            this.phaseEndsAt = at + breakMs;
+        } else {
+            this.phase = 'work';
+            this.phaseEndsAt = at + this.durations.workMs;
+        }
+        return this.phase;
+    }
+}
@@ -0,0 +1,39 @@
+// Tracks keyboard/mouse activity in Obsidian to notice when the user walked away with a timer
+// running. Idleness is detected when activity resumes, so no timer has to run meanwhile and a
+// sleeping computer is handled the same way.
+
+// Shorter pauses don't count as having been away, see getLastSeen
+const AWAY_MS = 5 * 60 * 1000;
+
+export class IdleMonitor {
+    private lastActivity: number;
+    private lastSeenBeforeAway: number | null = null;
+    private seen = false; // Any activity recorded yet, the start time isn't activity
+
+    constructor(now: number = Date.now()) {
+        this.lastActivity = now;
+    }
+
+    // Records activity. Returns when the user went idle if this ends an inactivity of at least
+    // thresholdMs, otherwise null. A threshold of 0 disables detection.
+    recordActivity(thresholdMs: number, now: number = Date.now()): number | null {
+        const idleSince = this.lastActivity;
+        if (this.seen && now - idleSince >= AWAY_MS) this.lastSeenBeforeAway = idleSince;
+        this.seen = true;
+        this.lastActivity = now;
+        if (thresholdMs <= 0 || now - idleSince < thresholdMs) return null;
+        return idleSince;
+    }
+
+    // No activity for a while (or none at all since loading)
+    isAway(now: number = Date.now()): boolean {
+        return now - this.lastActivity >= AWAY_MS;
+    }
+
+    // When the user was last active before walking away: the current pause if it's long enough,
+    // else the one before it. null if there was no activity (or no such pause) yet.
+    getLastSeen(now: number = Date.now()): number | null {
+        if (!this.seen) return null;
+        return now - this.lastActivity >= AWAY_MS ? this.lastActivity : this.lastSeenBeforeAway;
+    }
+}
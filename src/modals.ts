@@ -1,42 +1,103 @@
-import { App, Modal, Setting, Notice, SuggestModal } from 'obsidian';
-import { ProjectResource, TaskResource, TagResource } from './types'; // Adjust path
+import { App, Modal, Setting, Notice, SuggestModal, FuzzySuggestModal, FuzzyMatch, ToggleComponent, moment, setIcon } from 'obsidian';
+import { ProjectResource, TaskResource, TagResource, TimeEntryResource, ClientResource, ProjectStoreRequest, PersonalMembershipResource } from './types'; // Adjust path
 import SolidTimePlugin from '../main'; // Adjust path
+import { formatTimeInput, parseDurationInput, parseTimeInput, toApiTimestamp } from './time';
+import { PendingAction } from './offlineQueue';
+import { TimerPreset } from './settings';
 
 // --- Suggest Modals for Selection ---
 
 interface ProjectSuggestion extends ProjectResource {
-    // Interface might be identical if no extra display logic needed yet
+    clientName?: string | null; // Resolved from client_id for grouping/searching
+    organizationName?: string | null; // Only set when projects of several organizations are listed
+}
+
+export interface ProjectSuggestOptions {
+    clients?: ClientResource[]; // Used to group and search projects by client
+    getOrganizationName?: (project: ProjectResource) => string | null; // Groups and labels projects by organization
+    onCreate?: (name: string) => Promise<ProjectResource | null>; // Enables the "Create '<query>'" suggestion
+    onSwitch?: (project: ProjectResource | null) => void; // Chosen with Shift+Enter/Shift+click instead of onChoose
 }
 
 export class ProjectSuggestModal extends SuggestModal<ProjectSuggestion> {
     projects: ProjectSuggestion[];
     onChoose: (result: ProjectResource | null) => void; // Allow choosing null (clearing)
+    onCreate: ((name: string) => Promise<ProjectResource | null>) | null;
+    onSwitch: ((project: ProjectResource | null) => void) | null;
 
-    constructor(app: App, projects: ProjectResource[], onChoose: (result: ProjectResource | null) => void) {
+    constructor(app: App, projects: ProjectResource[], onChoose: (result: ProjectResource | null) => void, options: ProjectSuggestOptions = {}) {
         super(app);
+        const clients = options.clients || [];
+        this.onCreate = options.onCreate || null;
+        this.onSwitch = options.onSwitch || null;
+        if (this.onSwitch) {
+            this.scope.register(['Shift'], 'Enter', (evt: KeyboardEvent) => {
+                this.selectActiveSuggestion(evt);
+                return false;
+            });
+            this.setInstructions([
+                { command: '↵', purpose: 'change project' },
+                { command: 'shift ↵', purpose: 'switch: stop and start a new timer' },
+            ]);
+        }
+        // Group projects by client: client-less projects first, then by client name, then by project name
+        const clientNames = new Map(clients.map(client => [client.id, client.name]));
+        const withClients: ProjectSuggestion[] = projects.map(project => ({
+            ...project,
+            clientName: project.client_id ? (clientNames.get(project.client_id) ?? null) : null,
+            organizationName: options.getOrganizationName ? options.getOrganizationName(project) : null,
+        }));
+        withClients.sort((a, b) =>
+            (a.organizationName || '').localeCompare(b.organizationName || '') ||
+            (a.clientName || '').localeCompare(b.clientName || '') || a.name.localeCompare(b.name)
+        );
         // Add a "None" option
-        this.projects = [ { name: '(No project)', id: '__NONE__' } as ProjectSuggestion, ...projects];
+        this.projects = [ { name: '(No project)', id: '__NONE__' } as ProjectSuggestion, ...withClients];
         this.onChoose = onChoose;
         this.setPlaceholder("Select a SolidTime project (or 'No project')...");
     }
 
     getSuggestions(query: string): ProjectSuggestion[] {
         const lowerCaseQuery = query.toLowerCase();
-        return this.projects.filter(project =>
+        // Match on "Client Project" so "acme support" finds Acme's Support project
+        const matches = this.projects.filter(project =>
+            `${project.clientName || ''} ${project.name}`.toLowerCase().includes(lowerCaseQuery) ||
+            `${project.organizationName || ''} ${project.name}`.toLowerCase().includes(lowerCaseQuery) ||
             project.name.toLowerCase().includes(lowerCaseQuery)
         );
+        const trimmedQuery = query.trim();
+        if (this.onCreate && trimmedQuery && !matches.some(project => project.name.toLowerCase() === trimmedQuery.toLowerCase())) {
+            matches.push({ name: trimmedQuery, id: '__CREATE__' } as ProjectSuggestion);
+        }
+        return matches;
     }
 
     renderSuggestion(project: ProjectSuggestion, el: HTMLElement) {
+        if (project.id === '__CREATE__') {
+            el.createEl('div', { text: `Create project "${project.name}"`, cls: 'solidtime-suggestion-create' });
+            return;
+        }
+        const context = [project.organizationName, project.clientName].filter(part => !!part).join(' · ');
+        if (context) {
+            el.createEl('small', { text: context, cls: 'solidtime-suggestion-client' });
+        }
         el.createEl('div', { text: project.name });
-        // Optionally add client name if available/fetched
     }
 
     onChooseSuggestion(project: ProjectSuggestion, evt: MouseEvent | KeyboardEvent) {
+        const choose = (this.onSwitch && evt.shiftKey) ? this.onSwitch : this.onChoose;
         if (project.id === '__NONE__') {
-            this.onChoose(null);
+            choose(null);
+        } else if (project.id === '__CREATE__') {
+            this.onCreate?.(project.name).then(created => {
+                if (created) choose(created);
+            });
         } else {
-            this.onChoose(project);
+            // Strip the display-only fields before handing the project back
+            const resource: ProjectSuggestion = { ...project };
+            delete resource.clientName;
+            delete resource.organizationName;
+            choose(resource);
         }
     }
 }
@@ -47,31 +108,74 @@ interface TaskSuggestion extends TaskResource {
 }
 
 // Basic Task Suggest Modal (can be enhanced)
+export interface TaskSuggestOptions {
+    onCreate?: (name: string) => Promise<TaskResource | null>; // Enables the "Create '<query>'" suggestion
+    onToggleDone?: (task: TaskResource) => Promise<TaskResource | null>; // Adds a done/reopen button per task
+}
+
 export class TaskSuggestModal extends SuggestModal<TaskSuggestion> {
     tasks: TaskSuggestion[];
     onChoose: (result: TaskResource | null) => void;
+    onCreate: ((name: string) => Promise<TaskResource | null>) | null;
+    onToggleDone: ((task: TaskResource) => Promise<TaskResource | null>) | null;
 
-    constructor(app: App, tasks: TaskResource[], onChoose: (result: TaskResource | null) => void) {
+    constructor(app: App, tasks: TaskResource[], onChoose: (result: TaskResource | null) => void, options: TaskSuggestOptions = {}) {
         super(app);
-         this.tasks = [ { name: '(No task)', id: '__NONE__'} as TaskSuggestion, ...tasks];
+        // Open tasks first, done tasks (if shown at all) at the bottom
+        const sortedTasks = [...tasks].sort((a, b) => Number(a.is_done) - Number(b.is_done));
+         this.tasks = [ { name: '(No task)', id: '__NONE__'} as TaskSuggestion, ...sortedTasks];
         this.onChoose = onChoose;
+        this.onCreate = options.onCreate || null;
+        this.onToggleDone = options.onToggleDone || null;
         this.setPlaceholder("Select a task (or 'No task')...");
     }
 
     getSuggestions(query: string): TaskSuggestion[] {
         const lowerCaseQuery = query.toLowerCase();
-        return this.tasks.filter(task =>
+        const matches = this.tasks.filter(task =>
             task.name.toLowerCase().includes(lowerCaseQuery)
         );
+        const trimmedQuery = query.trim();
+        if (this.onCreate && trimmedQuery && !matches.some(task => task.name.toLowerCase() === trimmedQuery.toLowerCase())) {
+            matches.push({ name: trimmedQuery, id: '__CREATE__' } as TaskSuggestion);
+        }
+        return matches;
     }
 
     renderSuggestion(task: TaskSuggestion, el: HTMLElement) {
-        el.createEl('div', { text: task.name });
+        if (task.id === '__CREATE__') {
+            el.createEl('div', { text: `Create task "${task.name}"`, cls: 'solidtime-suggestion-create' });
+            return;
+        }
+        el.addClass('solidtime-task-suggestion');
+        el.createEl('div', { text: task.name, cls: task.is_done ? 'solidtime-task-done' : '' });
+
+        if (this.onToggleDone && task.id !== '__NONE__') {
+            const toggleEl = el.createEl('span', { cls: 'solidtime-task-toggle' });
+            setIcon(toggleEl, task.is_done ? 'rotate-ccw' : 'check');
+            toggleEl.setAttribute('aria-label', task.is_done ? 'Reopen task' : 'Mark task as done');
+            toggleEl.addEventListener('click', (evt) => {
+                // Don't let the click select the suggestion
+                evt.stopPropagation();
+                evt.preventDefault();
+                this.onToggleDone?.(task).then(updated => {
+                    if (!updated) return;
+                    const index = this.tasks.findIndex(t => t.id === updated.id);
+                    if (index >= 0) this.tasks[index] = updated;
+                    // Re-run the search so the list re-renders with the new state
+                    this.inputEl.dispatchEvent(new Event('input'));
+                });
+            });
+        }
     }
 
     onChooseSuggestion(task: TaskSuggestion, evt: MouseEvent | KeyboardEvent) {
          if (task.id === '__NONE__') {
             this.onChoose(null);
+        } else if (task.id === '__CREATE__') {
+            this.onCreate?.(task.name).then(created => {
+                if (created) this.onChoose(created);
+            });
         } else {
             this.onChoose(task);
         }
@@ -86,17 +190,21 @@ export class TagSelectionModal extends Modal {
     selectedTagIds: Set<string>; // Use a Set for efficient add/delete/check
     onSubmit: (selectedIds: string[]) => void;
 
+    orgId: string; // Tags belong to an organization, new ones are created there too
+
     newTagName: string = '';
 
     constructor(
         app: App,
         plugin: SolidTimePlugin,
         currentSelectedIds: string[],
-        onSubmit: (selectedIds: string[]) => void
+        onSubmit: (selectedIds: string[]) => void,
+        orgId: string = plugin.settings.selectedOrganizationId
     ) {
         super(app);
         this.plugin = plugin;
-        this.availableTags = [...plugin.tags].sort((a, b) => a.name.localeCompare(b.name)); // Get current tags and sort
+        this.orgId = orgId;
+        this.availableTags = [...plugin.orgCache.get(orgId).tags].sort((a, b) => a.name.localeCompare(b.name)); // Get current tags and sort
         this.selectedTagIds = new Set(currentSelectedIds);
         this.onSubmit = onSubmit;
     }
@@ -129,7 +237,7 @@ export class TagSelectionModal extends Modal {
                      return;
                 }
                 try {
-                    const newTag = await this.plugin.createTag(this.newTagName);
+                    const newTag = await this.plugin.createTag(this.newTagName, this.orgId);
                     if (newTag) {
                         new Notice(`Tag "${newTag.name}" created.`);
                         this.availableTags.push(newTag);
@@ -204,6 +312,8 @@ export class TagSelectionModal extends Modal {
 
 // --- Start Timer Modal ---
 
+const START_INPUT_HINT = 'Leave empty to start now. "-10m" for ten minutes ago, or a time like "09:45".';
+
 export class StartTimerModal extends Modal {
 	plugin: SolidTimePlugin;
     description: string = '';
@@ -211,10 +321,10 @@ export class StartTimerModal extends Modal {
     selectedTask: TaskResource | null = null;
     selectedTags: TagResource[] = []; // Future: Allow multiple tags
     isBillable: boolean;
+    startInput = ''; // Empty = now
 
     // Data stores from plugin
-    availableProjects: ProjectResource[] = [];
-    allTasks: TaskResource[] = []; // All tasks for the org
+    availableProjects: ProjectResource[] = []; // May span organizations, see getPickerProjects
     availableTags: TagResource[] = [];
 
     // Filtered data for display
@@ -231,8 +341,7 @@ export class StartTimerModal extends Modal {
         this.isBillable = plugin.settings.defaultBillable;
 
         // Get data from the plugin instance
-        this.availableProjects = plugin.projects;
-        this.allTasks = plugin.tasks;
+        this.availableProjects = plugin.getPickerProjects();
         this.availableTags = plugin.tags;
 
         this.filterTasksForSelectedProject(); // Initial filter (no project selected)
@@ -240,9 +349,9 @@ export class StartTimerModal extends Modal {
 
     filterTasksForSelectedProject() {
         if (this.selectedProject) {
-            // Filter tasks belonging to the selected project and are not done
-            this.filteredTasks = this.allTasks.filter(task =>
-                task.project_id === this.selectedProject?.id && !task.is_done
+            // Tasks of the selected project (not done, unless done tasks are shown), from the project's organization
+            this.filteredTasks = this.plugin.getTasksForProject(this.selectedProject.id).filter(task =>
+                this.plugin.settings.showDoneTasks || !task.is_done
             );
         } else {
             // If no project is selected, show no tasks
@@ -262,7 +371,9 @@ export class StartTimerModal extends Modal {
 		const { contentEl } = this;
 		contentEl.empty();
 		contentEl.addClass('solidtime-modal');
-		contentEl.createEl('h2', { text: 'Start SolidTime timer' });
+		// With a timer running, the new one replaces it (stopped and started at the same moment)
+		const switching = !!this.plugin.activeTimeEntry;
+		contentEl.createEl('h2', { text: switching ? 'Switch SolidTime timer' : 'Start SolidTime timer' });
 
 		// Description
 		new Setting(contentEl)
@@ -281,15 +392,15 @@ export class StartTimerModal extends Modal {
             type: 'text',
             attr: { placeholder: 'Click to select project (optional)', readonly: true } // Make it look like a selector
         });
-        this.projectInputElement.value = this.selectedProject ? this.selectedProject.name : '';
+        this.projectInputElement.value = this.selectedProject ? this.plugin.getProjectLabel(this.selectedProject) : '';
 
         this.projectInputElement.addEventListener('click', () => {
             new ProjectSuggestModal(this.app, this.availableProjects, (project) => {
                 this.selectedProject = project;
-                this.projectInputElement!.value = project ? project.name : ''; // Update input display
+                this.projectInputElement!.value = project ? this.plugin.getProjectLabel(project) : ''; // Update input display
                 this.selectedTask = null; // Reset task when project changes
                 this.filterTasksForSelectedProject(); // Update task list based on project
-            }).open();
+            }, this.plugin.getProjectSuggestOptions()).open();
         });
         projectSetting.controlEl.appendChild(this.projectInputElement);
 
@@ -310,15 +421,13 @@ export class StartTimerModal extends Modal {
                  new Notice("Please select a project first to see its tasks.");
                  return;
              }
-              if (this.filteredTasks.length === 0) {
-                  new Notice("No available (non-done) tasks found for this project.");
-                  return; // Prevent opening modal if no tasks
-             }
+             // An empty list is fine, the modal offers to create the typed task
 
+             const projectId = this.selectedProject.id;
              new TaskSuggestModal(this.app, this.filteredTasks, (task) => {
                  this.selectedTask = task;
                  this.taskInputElement!.value = task ? task.name : ''; // Update input display
-             }).open();
+             }, this.plugin.getTaskSuggestOptions(projectId)).open();
          });
          taskSetting.controlEl.appendChild(this.taskInputElement);
 
@@ -326,6 +435,15 @@ export class StartTimerModal extends Modal {
         // Tags Selector (Future: Multi-select)
         // TODO: Implement TagSuggestModal or similar multi-select UI
 
+        // Start (backdating)
+        new Setting(contentEl)
+            .setName('Start')
+            .setDesc(START_INPUT_HINT)
+            .addText(text => text
+                .setPlaceholder('Now')
+                .setValue(this.startInput)
+                .onChange(value => this.startInput = value));
+
         // Billable Toggle
         new Setting(contentEl)
             .setName('Billable')
@@ -337,30 +455,1035 @@ export class StartTimerModal extends Modal {
 		new Setting(contentEl)
             .setClass('modal-button-container') // Optional class for styling
 			.addButton(button => button
-				.setButtonText('Start timer')
+				.setButtonText(switching ? 'Switch timer' : 'Start timer')
 				.setCta() // Makes it prominent
-				.onClick(() => {
-					if (!this.plugin.settings.selectedMemberId) {
-                        new Notice("Error: Member ID not set. Please re-select organization in settings.");
-                        return;
-                    }
-					this.startTimer();
-					this.close();
+				.onClick(async () => {
+					// Stays open if the start time is rejected, so it can be corrected
+					if (await this.startTimer()) this.close();
 				}));
 	}
 
-	startTimer() {
-		this.plugin.startTimer({
+	async startTimer(): Promise<boolean> {
+		let start: string | undefined;
+		if (this.startInput.trim()) {
+			const orgId = this.plugin.getTimerOrgId(this.selectedProject?.id || null);
+			const resolved = await this.plugin.resolveStartInput(this.startInput, orgId);
+			if (!resolved) return false;
+			start = resolved;
+		}
+		// switchTimer simply starts when nothing runs (anymore)
+		this.plugin.switchTimer({
             description: this.description || null, // Ensure null if empty
             projectId: this.selectedProject?.id || null,
             taskId: this.selectedTask?.id || null,
             tagIds: this.selectedTags.map(t => t.id), // Use selected tag IDs
             billable: this.isBillable,
+            start: start,
         });
+		return true;
 	}
 
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
 	}
-}
\ No newline at end of file
+}
+
+
+// --- Confirmation Modal ---
+
+export class ConfirmModal extends Modal {
+    title: string;
+    message: string;
+    confirmText: string;
+    onConfirm: () => void;
+
+    constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void) {
+        super(app);
+        this.title = title;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.title });
+        contentEl.createEl('p', { text: this.message });
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.confirmText)
+                .setWarning()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+
+// --- Idle Prompt ---
+
+// Shown when the user comes back after being idle while a timer ran
+export class IdleModal extends Modal {
+    plugin: SolidTimePlugin;
+    entry: TimeEntryResource;
+    idleStart: string; // ISO 8601 UTC
+    idleEnd: string; // ISO 8601 UTC
+    onClosed: () => void;
+    private description = '';
+
+    constructor(app: App, plugin: SolidTimePlugin, entry: TimeEntryResource, idleStart: string, idleEnd: string, onClosed: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.entry = entry;
+        this.idleStart = idleStart;
+        this.idleEnd = idleEnd;
+        this.onClosed = onClosed;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'You were idle' });
+
+        const start = moment.utc(this.idleStart).local();
+        const idleMs = moment.utc(this.idleEnd).diff(start);
+        const project = this.plugin.orgCache.findProject(this.entry.project_id);
+        const timerName = this.entry.description || (project ? project.name : 'your timer');
+        contentEl.createEl('p', {
+            text: `No activity in Obsidian since ${start.format('HH:mm')} (${this.plugin.formatDuration(idleMs)}), while "${timerName}" kept running. What should happen with the idle time?`,
+        });
+
+        new Setting(contentEl)
+            .setName('Description for the idle time')
+            .setDesc('Only used when splitting, e.g. "Meeting".')
+            .addText(text => text
+                .setPlaceholder('Optional')
+                .onChange(value => { this.description = value; }));
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Keep')
+                .setTooltip('Leave the timer as it is')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Discard')
+                .setTooltip(`Stop the timer at ${start.format('HH:mm')}`)
+                .setWarning()
+                .onClick(() => {
+                    this.close();
+                    this.plugin.discardIdleTime(this.entry, this.idleStart);
+                }))
+            .addButton(button => button
+                .setButtonText('Split...')
+                .setTooltip('Book the idle time on another project and continue the timer')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    // The idle time is booked in the timer's organization, so only its projects fit
+                    const orgId = this.entry.organization_id;
+                    new ProjectSuggestModal(this.app, this.plugin.getPickerProjects(orgId), (chosen) => {
+                        this.plugin.splitIdleTime(this.entry, this.idleStart, this.idleEnd, chosen, this.description.trim() || null);
+                    }, this.plugin.getProjectSuggestOptions(orgId)).open();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onClosed();
+    }
+}
+
+
+// --- Start Time Prompt ---
+
+// Asks for a timer start ("-10m", "09:45", ...). With an entry, prefilled with its start.
+export class StartTimeModal extends Modal {
+    entry: TimeEntryResource | null;
+    onSubmit: (input: string) => void;
+    private input: string;
+
+    constructor(app: App, entry: TimeEntryResource | null, onSubmit: (input: string) => void, initialInput = '') {
+        super(app);
+        this.entry = entry;
+        this.onSubmit = onSubmit;
+        this.input = entry ? formatTimeInput(entry.start) : initialInput;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.entry ? 'Adjust start time' : 'Start time' });
+
+        new Setting(contentEl)
+            .setName('Start')
+            .setDesc(this.entry ? 'E.g. "-10m" for ten minutes ago, "09:45" or "2024-01-31 09:45".' : START_INPUT_HINT)
+            .addText(text => {
+                text.setPlaceholder(this.entry ? '09:45' : 'Now')
+                    .setValue(this.input)
+                    .onChange(value => this.input = value);
+                text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+                    if (evt.key === 'Enter') { evt.preventDefault(); this.submit(); }
+                });
+            });
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    submit() {
+        this.close();
+        this.onSubmit(this.input.trim());
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+
+// --- Split Timer Modal ---
+
+// One part of a split running entry
+export interface SplitPart {
+    description: string | null;
+    projectId: string | null;
+    taskId: string | null;
+    billable: boolean;
+}
+
+// Picks the split point and lets each part have its own description, project and task
+export class SplitTimerModal extends Modal {
+    plugin: SolidTimePlugin;
+    entry: TimeEntryResource;
+    splitInput = '';
+    first: SplitPart;
+    second: SplitPart;
+
+    constructor(app: App, plugin: SolidTimePlugin, entry: TimeEntryResource) {
+        super(app);
+        this.plugin = plugin;
+        this.entry = entry;
+        const part: SplitPart = {
+            description: entry.description,
+            projectId: entry.project_id,
+            taskId: entry.task_id,
+            billable: entry.billable,
+        };
+        this.first = { ...part };
+        this.second = { ...part };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('solidtime-modal');
+        contentEl.createEl('h2', { text: 'Split current timer' });
+
+        const started = moment.utc(this.entry.start).local();
+        new Setting(contentEl)
+            .setName('Split at')
+            .setDesc(`"-15m" for fifteen minutes ago, or a time like "10:30". The timer started at ${started.format('HH:mm')}.`)
+            .addText(text => text
+                .setPlaceholder('-15m')
+                .onChange(value => this.splitInput = value));
+
+        this.renderPart(contentEl, `First part (from ${started.format('HH:mm')})`, this.first);
+        this.renderPart(contentEl, 'Second part (keeps running)', this.second);
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Split timer')
+                .setCta()
+                .onClick(() => {
+                    if (!this.splitInput.trim()) {
+                        new Notice("Please enter where to split the timer.");
+                        return;
+                    }
+                    this.close();
+                    this.plugin.splitActiveTimer(this.splitInput.trim(), this.first, this.second);
+                }));
+    }
+
+    // Projects stay within the entry's organization, so its tags fit both parts
+    renderPart(containerEl: HTMLElement, title: string, part: SplitPart) {
+        new Setting(containerEl).setName(title).setHeading();
+
+        new Setting(containerEl)
+            .setName('Description')
+            .addText(text => text
+                .setValue(part.description || '')
+                .onChange(value => part.description = value.trim() || null));
+
+        const projectSetting = new Setting(containerEl)
+            .setName('Project')
+            .setClass('solidtime-modal-setting');
+        const projectInput = projectSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select project (optional)', readonly: true }
+        });
+        const currentProject = this.plugin.orgCache.findProject(part.projectId);
+        projectInput.value = currentProject ? this.plugin.getProjectLabel(currentProject) : '';
+
+        const taskSetting = new Setting(containerEl)
+            .setName('Task')
+            .setClass('solidtime-modal-setting');
+        const taskInput = taskSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select task (optional)', readonly: true }
+        });
+        taskInput.value = this.plugin.orgCache.findTask(part.taskId)?.name || '';
+
+        projectInput.addEventListener('click', () => {
+            const orgId = this.entry.organization_id;
+            new ProjectSuggestModal(this.app, this.plugin.getPickerProjects(orgId), (project) => {
+                if ((project?.id || null) === part.projectId) return;
+                part.projectId = project?.id || null;
+                part.taskId = null;
+                if (project) part.billable = project.is_billable;
+                projectInput.value = project ? this.plugin.getProjectLabel(project) : '';
+                taskInput.value = '';
+            }, this.plugin.getProjectSuggestOptions(orgId)).open();
+        });
+        taskInput.addEventListener('click', () => {
+            if (!part.projectId) {
+                new Notice("Please select a project first to see its tasks.");
+                return;
+            }
+            const projectId = part.projectId;
+            new TaskSuggestModal(this.app, this.plugin.getTasksForProject(projectId), (task) => {
+                part.taskId = task?.id || null;
+                taskInput.value = task ? task.name : '';
+            }, this.plugin.getTaskSuggestOptions(projectId)).open();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+
+// --- Recent Time Entry Picker ---
+
+export class TimeEntrySuggestModal extends SuggestModal<TimeEntryResource> {
+    plugin: SolidTimePlugin;
+    entries: TimeEntryResource[];
+    onChoose: (entry: TimeEntryResource) => void;
+
+    constructor(app: App, plugin: SolidTimePlugin, entries: TimeEntryResource[], onChoose: (entry: TimeEntryResource) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.entries = entries;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Search recent time entries...");
+    }
+
+    getSuggestions(query: string): TimeEntryResource[] {
+        const lowerCaseQuery = query.toLowerCase();
+        return this.entries.filter(entry => this.describeEntry(entry).toLowerCase().includes(lowerCaseQuery));
+    }
+
+    describeEntry(entry: TimeEntryResource): string {
+        const project = this.plugin.orgCache.findProject(entry.project_id);
+        const parts = [project ? this.plugin.getProjectLabel(project) : null, entry.description].filter(part => !!part);
+        return parts.length > 0 ? parts.join(' - ') : '(No description)';
+    }
+
+    renderSuggestion(entry: TimeEntryResource, el: HTMLElement) {
+        el.createEl('div', { text: this.describeEntry(entry) });
+
+        const start = moment.utc(entry.start).local();
+        const end = entry.end ? moment.utc(entry.end).local() : null;
+        const durationMs = (end ?? moment()).diff(start);
+        const range = `${start.format('ddd YYYY-MM-DD HH:mm')} - ${end ? end.format('HH:mm') : 'running'}`;
+        const earnings = this.plugin.formatEarnings(entry, durationMs);
+        el.createEl('small', { text: `${range} (${this.plugin.formatDuration(durationMs)})${earnings ? ` · ${earnings}` : ''}`, cls: 'solidtime-suggestion-note' });
+    }
+
+    onChooseSuggestion(entry: TimeEntryResource, evt: MouseEvent | KeyboardEvent) {
+        this.onChoose(entry);
+    }
+}
+
+
+// --- Manual / Edit Time Entry Modal ---
+
+export interface TimeEntryFormValues {
+    start: string; // ISO 8601 UTC
+    end: string | null; // ISO 8601 UTC, null only when editing a running entry
+    description: string | null;
+    projectId: string | null;
+    taskId: string | null;
+    tagIds: string[];
+    billable: boolean;
+}
+
+export class TimeEntryModal extends Modal {
+    plugin: SolidTimePlugin;
+    entry: TimeEntryResource | null; // null = create a new entry
+    onSubmit: (values: TimeEntryFormValues) => void;
+    onDelete: (() => void) | null;
+
+    description: string;
+    selectedProject: ProjectResource | null;
+    selectedTask: TaskResource | null;
+    selectedTagIds: string[];
+    isBillable: boolean;
+    startInput: string;
+    endInput: string;
+    durationInput = '';
+
+    projectInputElement: HTMLInputElement | null = null;
+    taskInputElement: HTMLInputElement | null = null;
+
+    constructor(
+        app: App,
+        plugin: SolidTimePlugin,
+        entry: TimeEntryResource | null,
+        onSubmit: (values: TimeEntryFormValues) => void,
+        onDelete: (() => void) | null = null
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.entry = entry;
+        this.onSubmit = onSubmit;
+        this.onDelete = onDelete;
+
+        this.description = entry?.description || '';
+        this.selectedProject = plugin.orgCache.findProject(entry?.project_id);
+        this.selectedTask = plugin.orgCache.findTask(entry?.task_id);
+        this.selectedTagIds = entry ? [...(entry.tags || [])] : [];
+        this.isBillable = entry ? entry.billable : plugin.settings.defaultBillable;
+        this.startInput = entry ? formatTimeInput(entry.start) : moment().subtract(1, 'hour').startOf('minute').format('YYYY-MM-DD HH:mm');
+        // A new entry defaults to the last hour through its duration, so typing another duration
+        // (or an end, which wins) just works
+        this.endInput = entry ? formatTimeInput(entry.end) : '';
+        this.durationInput = entry ? '' : '1h';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('solidtime-modal');
+        contentEl.createEl('h2', { text: this.entry ? 'Edit time entry' : 'Add time entry' });
+
+        new Setting(contentEl)
+            .setName('Description')
+            .addText(text => text
+                .setPlaceholder('What did you work on?')
+                .setValue(this.description)
+                .onChange(value => this.description = value));
+
+        const projectSetting = new Setting(contentEl)
+            .setName('Project')
+            .setClass('solidtime-modal-setting');
+        this.projectInputElement = projectSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select project (optional)', readonly: true }
+        });
+        this.projectInputElement.value = this.selectedProject ? this.plugin.getProjectLabel(this.selectedProject) : '';
+        this.projectInputElement.addEventListener('click', () => {
+            // An existing entry can't move to another organization
+            const entryOrgId = this.entry?.organization_id;
+            new ProjectSuggestModal(this.app, this.plugin.getPickerProjects(entryOrgId), (project) => {
+                const previousOrgId = this.getOrgId();
+                this.selectedProject = project;
+                this.projectInputElement!.value = project ? this.plugin.getProjectLabel(project) : '';
+                if (this.selectedTask && this.selectedTask.project_id !== project?.id) {
+                    this.selectedTask = null;
+                    this.taskInputElement!.value = '';
+                }
+                if (this.getOrgId() !== previousOrgId) {
+                    // Tags don't carry over between organizations
+                    this.selectedTagIds = [];
+                    tagSetting.setDesc(this.describeTags());
+                }
+            }, this.plugin.getProjectSuggestOptions(entryOrgId)).open();
+        });
+
+        const taskSetting = new Setting(contentEl)
+            .setName('Task')
+            .setClass('solidtime-modal-setting');
+        this.taskInputElement = taskSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select task (optional)', readonly: true }
+        });
+        this.taskInputElement.value = this.selectedTask?.name || '';
+        this.taskInputElement.addEventListener('click', () => {
+            if (!this.selectedProject) {
+                new Notice("Please select a project first to see its tasks.");
+                return;
+            }
+            const projectId = this.selectedProject.id;
+            const projectTasks = this.plugin.getTasksForProject(projectId);
+            new TaskSuggestModal(this.app, projectTasks, (task) => {
+                this.selectedTask = task;
+                this.taskInputElement!.value = task ? task.name : '';
+            }, this.plugin.getTaskSuggestOptions(projectId)).open();
+        });
+
+        new Setting(contentEl)
+            .setName('Start')
+            .setDesc('"YYYY-MM-DD HH:mm", or "HH:mm" for today.')
+            .addText(text => text
+                .setPlaceholder('09:00')
+                .setValue(this.startInput)
+                .onChange(value => this.startInput = value));
+
+        const isRunningEntry = !!this.entry && !this.entry.end;
+        new Setting(contentEl)
+            .setName('End')
+            .setDesc(isRunningEntry
+                ? 'Leave empty to keep the timer running. "HH:mm" is on the start day.'
+                : '"HH:mm" is on the start day. Leave empty to use the duration instead.')
+            .addText(text => text
+                .setPlaceholder('10:30')
+                .setValue(this.endInput)
+                .onChange(value => this.endInput = value));
+
+        new Setting(contentEl)
+            .setName('Duration')
+            .setDesc('Used when no end is given, e.g. "1h30m", "90m" or "1:30".')
+            .addText(text => text
+                .setPlaceholder('1h30m')
+                .setValue(this.durationInput)
+                .onChange(value => this.durationInput = value));
+
+        const tagSetting = new Setting(contentEl)
+            .setName('Tags')
+            .setDesc(this.describeTags());
+        tagSetting.addButton(button => button
+            .setButtonText('Select tags')
+            .onClick(() => {
+                new TagSelectionModal(this.app, this.plugin, this.selectedTagIds, (selectedIds) => {
+                    this.selectedTagIds = selectedIds;
+                    tagSetting.setDesc(this.describeTags());
+                }, this.getOrgId()).open();
+            }));
+
+        new Setting(contentEl)
+            .setName('Billable')
+            .addToggle(toggle => toggle
+                .setValue(this.isBillable)
+                .onChange(value => this.isBillable = value));
+
+        const buttons = new Setting(contentEl).setClass('modal-button-container');
+        if (this.entry && this.onDelete) {
+            buttons.addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .onClick(() => {
+                    this.close();
+                    this.onDelete!();
+                }));
+        }
+        buttons.addButton(button => button
+            .setButtonText(this.entry ? 'Save changes' : 'Add entry')
+            .setCta()
+            .onClick(() => {
+                const values = this.collectValues();
+                if (!values) return;
+                this.close();
+                this.onSubmit(values);
+            }));
+    }
+
+    // The entry's organization, or for a new entry the selected project's
+    getOrgId(): string {
+        return this.entry?.organization_id
+            || this.plugin.orgCache.getOrgIdForProject(this.selectedProject?.id)
+            || this.plugin.settings.selectedOrganizationId;
+    }
+
+    describeTags(): string {
+        const names = this.plugin.orgCache.findTags(this.selectedTagIds).map(tag => tag.name);
+        return names.length > 0 ? names.join(', ') : 'No tags selected.';
+    }
+
+    // Validates the inputs and shows a notice for the first problem found
+    collectValues(): TimeEntryFormValues | null {
+        const start = parseTimeInput(this.startInput);
+        if (!start) {
+            new Notice("Could not read the start time. Use \"YYYY-MM-DD HH:mm\" or \"HH:mm\".");
+            return null;
+        }
+
+        let end = this.endInput.trim() ? parseTimeInput(this.endInput, start) : null;
+        if (this.endInput.trim() && !end) {
+            new Notice("Could not read the end time. Use \"YYYY-MM-DD HH:mm\" or \"HH:mm\".");
+            return null;
+        }
+        if (!end && this.durationInput.trim()) {
+            const durationMs = parseDurationInput(this.durationInput);
+            if (!durationMs || durationMs <= 0) {
+                new Notice("Could not read the duration. Use e.g. \"1h30m\", \"90m\" or \"1:30\".");
+                return null;
+            }
+            end = start.clone().add(durationMs, 'milliseconds');
+        }
+
+        const isRunningEntry = !!this.entry && !this.entry.end;
+        if (!end && !isRunningEntry) {
+            new Notice("Please enter an end time or a duration.");
+            return null;
+        }
+        if (end && !end.isAfter(start)) {
+            new Notice("The end must be after the start.");
+            return null;
+        }
+
+        return {
+            start: toApiTimestamp(start),
+            end: end ? toApiTimestamp(end) : null,
+            description: this.description.trim() || null,
+            projectId: this.selectedProject?.id || null,
+            taskId: this.selectedTask?.id || null,
+            tagIds: this.selectedTagIds,
+            billable: this.isBillable,
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+
+// --- Timer Presets ---
+
+// Creates or edits a preset. Works on a copy, onSubmit gets the edited preset.
+export class PresetModal extends Modal {
+    plugin: SolidTimePlugin;
+    preset: TimerPreset;
+    isNew: boolean;
+    onSubmit: (preset: TimerPreset) => void;
+
+    selectedProject: ProjectResource | null;
+    selectedTask: TaskResource | null;
+
+    projectInputElement: HTMLInputElement | null = null;
+    taskInputElement: HTMLInputElement | null = null;
+
+    constructor(app: App, plugin: SolidTimePlugin, preset: TimerPreset, isNew: boolean, onSubmit: (preset: TimerPreset) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.preset = { ...preset, tagIds: [...preset.tagIds] };
+        this.isNew = isNew;
+        this.onSubmit = onSubmit;
+        this.selectedProject = plugin.orgCache.findProject(preset.projectId);
+        this.selectedTask = plugin.orgCache.findTask(preset.taskId);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('solidtime-modal');
+        contentEl.createEl('h2', { text: this.isNew ? 'Add timer preset' : 'Edit timer preset' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .setDesc('Shown in the command "Start preset: <name>".')
+            .addText(text => text
+                .setPlaceholder('Stand-up')
+                .setValue(this.preset.name)
+                .onChange(value => this.preset.name = value));
+
+        new Setting(contentEl)
+            .setName('Description')
+            .addText(text => text
+                .setPlaceholder('What are you working on?')
+                .setValue(this.preset.description || '')
+                .onChange(value => this.preset.description = value.trim() || null));
+
+        const projectSetting = new Setting(contentEl)
+            .setName('Project')
+            .setClass('solidtime-modal-setting');
+        this.projectInputElement = projectSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select project (optional)', readonly: true }
+        });
+        this.projectInputElement.value = this.selectedProject ? this.plugin.getProjectLabel(this.selectedProject) : '';
+        this.projectInputElement.addEventListener('click', () => {
+            new ProjectSuggestModal(this.app, this.plugin.getPickerProjects(), (project) => {
+                this.selectedProject = project;
+                this.projectInputElement!.value = project ? this.plugin.getProjectLabel(project) : '';
+                if (this.selectedTask && this.selectedTask.project_id !== project?.id) {
+                    this.selectedTask = null;
+                    this.taskInputElement!.value = '';
+                }
+                const orgId = this.plugin.getTimerOrgId(project?.id || null);
+                if (orgId !== this.preset.organizationId) {
+                    // Tags don't carry over between organizations
+                    this.preset.organizationId = orgId;
+                    this.preset.tagIds = [];
+                    tagSetting.setDesc(this.describeTags());
+                }
+                if (project) this.preset.billable = project.is_billable;
+                billableToggle?.setValue(this.preset.billable);
+            }, this.plugin.getProjectSuggestOptions()).open();
+        });
+
+        const taskSetting = new Setting(contentEl)
+            .setName('Task')
+            .setClass('solidtime-modal-setting');
+        this.taskInputElement = taskSetting.controlEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Click to select task (optional)', readonly: true }
+        });
+        this.taskInputElement.value = this.selectedTask?.name || '';
+        this.taskInputElement.addEventListener('click', () => {
+            if (!this.selectedProject) {
+                new Notice("Please select a project first to see its tasks.");
+                return;
+            }
+            const projectId = this.selectedProject.id;
+            new TaskSuggestModal(this.app, this.plugin.getTasksForProject(projectId), (task) => {
+                this.selectedTask = task;
+                this.taskInputElement!.value = task ? task.name : '';
+            }, this.plugin.getTaskSuggestOptions(projectId)).open();
+        });
+
+        const tagSetting = new Setting(contentEl)
+            .setName('Tags')
+            .setDesc(this.describeTags());
+        tagSetting.addButton(button => button
+            .setButtonText('Select tags')
+            .onClick(() => {
+                new TagSelectionModal(this.app, this.plugin, this.preset.tagIds, (selectedIds) => {
+                    this.preset.tagIds = selectedIds;
+                    tagSetting.setDesc(this.describeTags());
+                }, this.preset.organizationId).open();
+            }));
+
+        let billableToggle: ToggleComponent | null = null;
+        new Setting(contentEl)
+            .setName('Billable')
+            .addToggle(toggle => {
+                billableToggle = toggle;
+                toggle.setValue(this.preset.billable)
+                    .onChange(value => this.preset.billable = value);
+            });
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText(this.isNew ? 'Add preset' : 'Save changes')
+                .setCta()
+                .onClick(() => {
+                    if (!this.preset.name.trim()) {
+                        new Notice("Please give the preset a name.");
+                        return;
+                    }
+                    this.close();
+                    this.onSubmit({
+                        ...this.preset,
+                        name: this.preset.name.trim(),
+                        projectId: this.selectedProject?.id || null,
+                        taskId: this.selectedTask?.id || null,
+                    });
+                }));
+    }
+
+    describeTags(): string {
+        const names = this.plugin.orgCache.findTags(this.preset.tagIds).map(tag => tag.name);
+        return names.length > 0 ? names.join(', ') : 'No tags selected.';
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+export class PresetSuggestModal extends FuzzySuggestModal<TimerPreset> {
+    plugin: SolidTimePlugin;
+    onChoose: (preset: TimerPreset) => void;
+
+    constructor(app: App, plugin: SolidTimePlugin, onChoose: (preset: TimerPreset) => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onChoose = onChoose;
+        this.setPlaceholder(plugin.activeTimeEntry ? "Switch to preset..." : "Start preset...");
+    }
+
+    getItems(): TimerPreset[] {
+        return this.plugin.settings.presets;
+    }
+
+    getItemText(preset: TimerPreset): string {
+        return preset.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<TimerPreset>, el: HTMLElement) {
+        super.renderSuggestion(match, el);
+        el.createEl('small', { text: this.plugin.describePreset(match.item), cls: 'solidtime-suggestion-note' });
+    }
+
+    onChooseItem(preset: TimerPreset, evt: MouseEvent | KeyboardEvent) {
+        this.onChoose(preset);
+    }
+}
+
+
+// --- Create Project Modal ---
+
+// Default palette offered for new projects (same hues the SolidTime web app suggests)
+const PROJECT_COLORS = ['#ef5350', '#ec407a', '#ab47bc', '#7e57c2', '#5c6bc0', '#42a5f5', '#29b6f6', '#26c6da', '#26a69a', '#66bb6a', '#9ccc65', '#d4e157', '#ffee58', '#ffca28', '#ffa726', '#ff7043'];
+
+export class CreateProjectModal extends Modal {
+    plugin: SolidTimePlugin;
+    onSubmit: (payload: ProjectStoreRequest) => void;
+    onCancel: () => void;
+    submitted = false;
+
+    name: string;
+    color: string;
+    clientId: string | null = null;
+    isBillable: boolean;
+    estimateInput = '';
+
+    orgId: string; // Only this organization's clients are offered
+
+    constructor(
+        app: App,
+        plugin: SolidTimePlugin,
+        initialName: string,
+        onSubmit: (payload: ProjectStoreRequest) => void,
+        onCancel: () => void = () => {},
+        orgId: string = plugin.settings.selectedOrganizationId
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.orgId = orgId;
+        this.onSubmit = onSubmit;
+        this.onCancel = onCancel;
+        this.name = initialName;
+        this.color = PROJECT_COLORS[Math.floor(Math.random() * PROJECT_COLORS.length)];
+        this.isBillable = plugin.settings.defaultBillable;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('solidtime-modal');
+        contentEl.createEl('h2', { text: 'Create SolidTime project' });
+        const orgName = this.plugin.hasMultipleOrganizations() ? this.plugin.getOrganizationName(this.orgId) : null;
+        if (orgName) {
+            contentEl.createEl('p', { text: `In ${orgName}`, cls: 'setting-item-description' });
+        }
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setValue(this.name)
+                .onChange(value => this.name = value));
+
+        new Setting(contentEl)
+            .setName('Color')
+            .addColorPicker(picker => picker
+                .setValue(this.color)
+                .onChange(value => this.color = value));
+
+        new Setting(contentEl)
+            .setName('Client')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', '(No client)');
+                this.plugin.orgCache.get(this.orgId).clients.forEach(client => dropdown.addOption(client.id, client.name));
+                dropdown.setValue(this.clientId || '');
+                dropdown.onChange(value => this.clientId = value || null);
+            });
+
+        new Setting(contentEl)
+            .setName('Billable')
+            .addToggle(toggle => toggle
+                .setValue(this.isBillable)
+                .onChange(value => this.isBillable = value));
+
+        new Setting(contentEl)
+            .setName('Time estimate')
+            .setDesc('Optional, e.g. "20h" or "90m".')
+            .addText(text => text
+                .setPlaceholder('20h')
+                .onChange(value => this.estimateInput = value));
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Create project')
+                .setCta()
+                .onClick(() => {
+                    const name = this.name.trim();
+                    if (!name) {
+                        new Notice("Please enter a project name.");
+                        return;
+                    }
+                    let estimatedSeconds: number | null = null;
+                    if (this.estimateInput.trim()) {
+                        const estimateMs = parseDurationInput(this.estimateInput);
+                        if (!estimateMs) {
+                            new Notice("Could not read the time estimate. Use e.g. \"20h\" or \"90m\".");
+                            return;
+                        }
+                        estimatedSeconds = Math.round(estimateMs / 1000);
+                    }
+                    this.submitted = true;
+                    this.close();
+                    this.onSubmit({
+                        name: name,
+                        color: this.color,
+                        is_billable: this.isBillable,
+                        client_id: this.clientId,
+                        estimated_time: estimatedSeconds,
+                    });
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        if (!this.submitted) this.onCancel();
+    }
+}
+
+
+// --- Pending Offline Changes Modal ---
+
+export class PendingActionsModal extends Modal {
+    plugin: SolidTimePlugin;
+
+    constructor(app: App, plugin: SolidTimePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('solidtime-modal');
+        contentEl.createEl('h2', { text: 'Pending offline changes' });
+
+        const actions = this.plugin.offlineQueue.actions;
+        if (actions.length === 0) {
+            contentEl.createEl('p', { text: 'Nothing waiting to sync.', cls: 'setting-item-description' });
+            return;
+        }
+
+        actions.forEach(action => {
+            const setting = new Setting(contentEl)
+                .setName(this.describeAction(action))
+                .setDesc(action.status === 'conflict'
+                    ? `Conflict: ${action.conflictReason || 'Changed in SolidTime while offline.'}`
+                    : `Queued ${moment.utc(action.queuedAt).local().format('YYYY-MM-DD HH:mm:ss')}, waiting to sync.`);
+
+            if (action.status === 'conflict') {
+                setting.addButton(button => button
+                    .setButtonText('Apply anyway')
+                    .onClick(async () => {
+                        await this.plugin.forceReplayAction(action);
+                        this.render();
+                    }));
+            }
+            setting.addButton(button => button
+                .setButtonText('Discard')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.discardPendingAction(action);
+                    this.render();
+                }));
+        });
+
+        new Setting(contentEl)
+            .setClass('modal-button-container')
+            .addButton(button => button
+                .setButtonText('Sync now')
+                .setCta()
+                .onClick(async () => {
+                    this.plugin.pollBreaker.recordSuccess();
+                    await this.plugin.updateStatus();
+                    this.render();
+                }));
+    }
+
+    describeAction(action: PendingAction): string {
+        if (action.kind === 'start') {
+            const label = action.payload.description || '(No description)';
+            const start = moment.utc(action.payload.start).local().format('HH:mm');
+            return action.end
+                ? `Log "${label}" ${start}-${moment.utc(action.end).local().format('HH:mm')}`
+                : `Start "${label}" at ${start}`;
+        }
+        const label = action.snapshot.description || '(No description)';
+        if (action.kind === 'stop') {
+            return `Stop "${label}" at ${moment.utc(action.end).local().format('HH:mm')}`;
+        }
+        return `Update "${label}" (${Object.keys(action.changes).join(', ')})`;
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+
+// --- Organization Switcher ---
+
+export class OrganizationSuggestModal extends FuzzySuggestModal<PersonalMembershipResource> {
+    memberships: PersonalMembershipResource[];
+    currentOrgId: string;
+    onChoose: (membership: PersonalMembershipResource) => void;
+
+    constructor(app: App, memberships: PersonalMembershipResource[], currentOrgId: string, onChoose: (membership: PersonalMembershipResource) => void) {
+        super(app);
+        this.memberships = memberships.filter(membership => !!membership.organization);
+        this.currentOrgId = currentOrgId;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Switch to organization...");
+    }
+
+    getItems(): PersonalMembershipResource[] {
+        return this.memberships;
+    }
+
+    getItemText(membership: PersonalMembershipResource): string {
+        return membership.organization.name;
+    }
+
+    renderSuggestion(match: FuzzyMatch<PersonalMembershipResource>, el: HTMLElement) {
+        super.renderSuggestion(match, el);
+        const isCurrent = match.item.organization.id === this.currentOrgId;
+        el.createEl('small', { text: isCurrent ? `${match.item.role} · current` : match.item.role, cls: 'solidtime-suggestion-note' });
+    }
+
+    onChooseItem(membership: PersonalMembershipResource, evt: MouseEvent | KeyboardEvent) {
+        if (membership.organization.id === this.currentOrgId) return;
+        this.onChoose(membership);
+    }
+}
@@ -0,0 +1,156 @@
+import { TimeEntryResource, TimeEntryStartPayload } from './types';
+
+// Timer actions taken while SolidTime was unreachable. They are persisted with the plugin
+// data and replayed in order once the API answers again.
+
+// Prefix for the id of an entry that was started offline and doesn't exist on the server yet
+export const OFFLINE_ENTRY_PREFIX = 'offline-';
+
+export interface TimeEntryChanges {
+    description?: string | null;
+    project_id?: string | null;
+    task_id?: string | null;
+    tags?: string[];
+    billable?: boolean;
+    start?: string; // ISO 8601 UTC
+}
+
+interface PendingActionBase {
+    id: string;
+    queuedAt: string; // ISO 8601 UTC, when the user acted
+    orgId: string;
+    status: 'pending' | 'conflict';
+    conflictReason?: string;
+}
+
+// Timer started offline. If it was also stopped offline, end is set and the entry is created finished.
+export interface PendingStartAction extends PendingActionBase {
+    kind: 'start';
+    localEntryId: string;
+    payload: TimeEntryStartPayload;
+    end: string | null;
+}
+
+// Server entry stopped offline. snapshot is the entry as we knew it, used to detect server-side changes.
+export interface PendingStopAction extends PendingActionBase {
+    kind: 'stop';
+    entryId: string;
+    end: string;
+    snapshot: TimeEntryResource;
+}
+
+// Server entry edited offline
+export interface PendingUpdateAction extends PendingActionBase {
+    kind: 'update';
+    entryId: string;
+    changes: TimeEntryChanges;
+    snapshot: TimeEntryResource;
+}
+
+export type PendingAction = PendingStartAction | PendingStopAction | PendingUpdateAction;
+
+// What replaying a single action resulted in
+export type ReplayResult = { outcome: 'done' } | { outcome: 'conflict'; reason: string };
+
+export function isOfflineEntryId(entryId: string | null | undefined): boolean {
+    return !!entryId && entryId.startsWith(OFFLINE_ENTRY_PREFIX);
+}
+
+export function createActionId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The entry id an action refers to (the local id for offline starts)
+export function getActionEntryId(action: PendingAction): string {
+    return action.kind === 'start' ? action.localEntryId : action.entryId;
+}
+
+export class OfflineQueue {
+    actions: PendingAction[];
+    private persist: () => Promise<void>;
+    private replaying = false;
+
+    constructor(actions: PendingAction[], persist: () => Promise<void>) {
+        this.actions = actions;
+        this.persist = persist;
+    }
+
+    get pendingCount(): number {
+        return this.actions.filter(action => action.status === 'pending').length;
+    }
+
+    get conflictCount(): number {
+        return this.actions.filter(action => action.status === 'conflict').length;
+    }
+
+    get isEmpty(): boolean {
+        return this.actions.length === 0;
+    }
+
+    async enqueue(action: PendingAction) {
+        this.actions.push(action);
+        await this.persist();
+    }
+
+    async remove(actionId: string) {
+        this.actions = this.actions.filter(action => action.id !== actionId);
+        await this.persist();
+    }
+
+    async clear() {
+        this.actions = [];
+        await this.persist();
+    }
+
+    findStartForLocalEntry(localEntryId: string): PendingStartAction | null {
+        return this.actions.find((action): action is PendingStartAction =>
+            action.kind === 'start' && action.localEntryId === localEntryId) || null;
+    }
+
+    // Saves in-place edits to queued actions (e.g. merging a stop into an offline start)
+    async save() {
+        await this.persist();
+    }
+
+    async markPending(actionId: string) {
+        const action = this.actions.find(a => a.id === actionId);
+        if (!action) return;
+        action.status = 'pending';
+        delete action.conflictReason;
+        await this.persist();
+    }
+
+    // Replays pending actions in order. Errors from the handler (e.g. still offline) stop the
+    // replay and are rethrown; the failed action and everything after it stay queued.
+    // Actions on an entry whose earlier action is in conflict are held back as well.
+    async replay(handler: (action: PendingAction) => Promise<ReplayResult>): Promise<{ done: number; conflicts: number }> {
+        if (this.replaying) return { done: 0, conflicts: 0 };
+        this.replaying = true;
+        let done = 0;
+        let conflicts = 0;
+        try {
+            const blockedEntries = new Set(
+                this.actions.filter(action => action.status === 'conflict').map(getActionEntryId)
+            );
+            for (const action of [...this.actions]) {
+                if (action.status !== 'pending') continue;
+                if (blockedEntries.has(getActionEntryId(action))) continue;
+
+                const result = await handler(action);
+                if (result.outcome === 'done') {
+                    this.actions = this.actions.filter(a => a.id !== action.id);
+                    done++;
+                } else {
+                    action.status = 'conflict';
+                    action.conflictReason = result.reason;
+                    blockedEntries.add(getActionEntryId(action));
+                    conflicts++;
+                }
+                await this.persist();
+            }
+        } finally {
+            this.replaying = false;
+        }
+        return { done, conflicts };
+    }
+}
@@ -0,0 +1,108 @@
+import { ClientResource, MemberResource, OrganizationResource, ProjectResource, TagResource, TaskResource } from './types';
+
+// Projects, tasks, tags and clients per organization, so switching organizations doesn't
+// refetch everything and the running timer can belong to a different organization than the
+// selected one. IDs are UUIDs, so lookups by ID can search all organizations.
+
+export interface OrganizationData {
+    projects: ProjectResource[];
+    tasks: TaskResource[];
+    tags: TagResource[];
+    clients: ClientResource[];
+    organization: OrganizationResource | null; // For billable rates and currency, null if it couldn't be loaded
+    member: MemberResource | null; // The current user's membership, null if the role can't list members
+    loadedAt: number | null; // Epoch ms of the last successful fetch, null if never loaded
+}
+
+export class OrganizationCache {
+    private data: Record<string, OrganizationData> = {};
+
+    // Always returns an object, so callers can push into the lists before the first fetch
+    get(orgId: string): OrganizationData {
+        if (!this.data[orgId]) {
+            this.data[orgId] = { projects: [], tasks: [], tags: [], clients: [], organization: null, member: null, loadedAt: null };
+        }
+        return this.data[orgId];
+    }
+
+    set(orgId: string, data: Omit<OrganizationData, 'loadedAt'>) {
+        this.data[orgId] = { ...data, loadedAt: Date.now() };
+    }
+
+    isLoaded(orgId: string): boolean {
+        return !!this.data[orgId]?.loadedAt;
+    }
+
+    // Clears one organization, or all of them (e.g. after the API key changed)
+    clear(orgId?: string) {
+        if (orgId === undefined) {
+            this.data = {};
+        } else {
+            delete this.data[orgId];
+        }
+    }
+
+    get orgIds(): string[] {
+        return Object.keys(this.data);
+    }
+
+    findProject(projectId: string | null | undefined): ProjectResource | null {
+        if (!projectId) return null;
+        for (const orgId of this.orgIds) {
+            const project = this.data[orgId].projects.find(p => p.id === projectId);
+            if (project) return project;
+        }
+        return null;
+    }
+
+    // Projects of every cached organization
+    getAllProjects(): ProjectResource[] {
+        return this.orgIds.reduce<ProjectResource[]>((all, orgId) => all.concat(this.data[orgId].projects), []);
+    }
+
+    // Case-insensitive name (or exact ID) match; the preferred organization's projects win over
+    // same-named ones elsewhere
+    findProjectByName(nameOrId: string, preferredOrgId: string | null = null): ProjectResource | null {
+        const wanted = nameOrId.trim().toLowerCase();
+        const preferred = preferredOrgId && this.data[preferredOrgId] ? this.data[preferredOrgId].projects : [];
+        return [...preferred, ...this.getAllProjects()].find(project =>
+            project.id === nameOrId || project.name.toLowerCase() === wanted
+        ) || null;
+    }
+
+    findTask(taskId: string | null | undefined): TaskResource | null {
+        if (!taskId) return null;
+        for (const orgId of this.orgIds) {
+            const task = this.data[orgId].tasks.find(t => t.id === taskId);
+            if (task) return task;
+        }
+        return null;
+    }
+
+    findClient(clientId: string | null | undefined): ClientResource | null {
+        if (!clientId) return null;
+        for (const orgId of this.orgIds) {
+            const client = this.data[orgId].clients.find(c => c.id === clientId);
+            if (client) return client;
+        }
+        return null;
+    }
+
+    findTags(tagIds: string[]): TagResource[] {
+        const tags: TagResource[] = [];
+        this.orgIds.forEach(orgId => {
+            tags.push(...this.data[orgId].tags.filter(tag => tagIds.includes(tag.id)));
+        });
+        return tags;
+    }
+
+    getOrgIdForProject(projectId: string | null | undefined): string | null {
+        if (!projectId) return null;
+        return this.orgIds.find(orgId => this.data[orgId].projects.some(p => p.id === projectId)) || null;
+    }
+
+    getOrgIdForTask(taskId: string | null | undefined): string | null {
+        if (!taskId) return null;
+        return this.orgIds.find(orgId => this.data[orgId].tasks.some(t => t.id === taskId)) || null;
+    }
+}
@@ -0,0 +1,34 @@
+// Decides how long to wait before the next server check of the running timer. Checks quickly for
+// a while after our own changes, slowly while the user is away, and not at all while the window is
+// hidden. The CircuitBreaker still decides whether a due check may actually run.
+
+const BOOSTED_POLL_MS = 5 * 1000;
+const BOOST_DURATION_MS = 60 * 1000;
+const AWAY_FACTOR = 4;
+const MAX_AWAY_POLL_MS = 10 * 60 * 1000;
+
+export interface PollConditions {
+    hidden: boolean; // Obsidian's window isn't visible
+    userAway: boolean; // No keyboard or mouse activity for a while
+}
+
+export class PollScheduler {
+    private boostedUntil = 0;
+
+    // After starting, stopping or editing something, other clients and the server may follow up
+    boost(now: number = Date.now()) {
+        this.boostedUntil = now + BOOST_DURATION_MS;
+    }
+
+    isBoosted(now: number = Date.now()): boolean {
+        return now < this.boostedUntil;
+    }
+
+    // Delay in ms, or null to not poll. A base interval of 0 disables polling.
+    getDelay(baseMs: number, conditions: PollConditions, now: number = Date.now()): number | null {
+        if (baseMs <= 0 || conditions.hidden) return null;
+        if (this.isBoosted(now)) return Math.min(baseMs, BOOSTED_POLL_MS);
+        if (conditions.userAway) return Math.max(baseMs, Math.min(baseMs * AWAY_FACTOR, MAX_AWAY_POLL_MS));
+        return baseMs;
+    }
+}
@@ -0,0 +1,136 @@
+import { Workspace, moment } from 'obsidian';
+import type SolidTimePlugin from '../main';
+import { ProjectResource, TagResource, TaskResource, TimeEntryResource } from './types';
+import { isOfflineEntryId } from './offlineQueue';
+
+// API for other plugins and scripts (Templater, QuickAdd, ...), available as
+//   app.plugins.plugins['solidtime-integration'].publicApi
+// Everything here is meant to stay stable: additions keep the version, anything that would break
+// existing callers bumps PUBLIC_API_VERSION. Returned resources are copies, changing them has no effect.
+
+export const PUBLIC_API_VERSION = 1;
+
+// Workspace events, e.g. app.workspace.on('solidtime:timer-started', (entry) => ...)
+export const TIMER_STARTED_EVENT = 'solidtime:timer-started'; // (entry: TimeEntryResource)
+export const TIMER_STOPPED_EVENT = 'solidtime:timer-stopped'; // (entry: TimeEntryResource), as last seen running
+export const TIMER_UPDATED_EVENT = 'solidtime:timer-updated'; // (entry: TimeEntryResource)
+export const DATA_REFRESHED_EVENT = 'solidtime:data-refreshed'; // (organizationId: string)
+
+export interface PublicTimerOptions {
+    description?: string | null;
+    projectId?: string | null;
+    taskId?: string | null;
+    tagIds?: string[];
+    billable?: boolean; // Defaults to the project's billable flag, else the plugin setting
+    start?: string; // "-10m", "09:45" or an ISO 8601 timestamp, defaults to now
+}
+
+export interface PublicTimeEntryQuery {
+    start?: string; // ISO 8601, entries starting after this moment
+    end?: string; // ISO 8601, entries starting before this moment
+    projectId?: string;
+    limit?: number; // Defaults to 50
+    organizationId?: string; // Defaults to the selected organization
+}
+
+export interface SolidTimePublicApi {
+    readonly version: number;
+    getActiveTimeEntry(): TimeEntryResource | null;
+    startTimer(options?: PublicTimerOptions): Promise<TimeEntryResource | null>; // null if it couldn't start (a notice says why)
+    stopTimer(): Promise<TimeEntryResource | null>; // The stopped entry, null if none was running or the stop failed
+    switchTimer(options?: PublicTimerOptions): Promise<TimeEntryResource | null>; // Stops the running timer and starts at the same moment
+    getProjects(organizationId?: string): ProjectResource[];
+    findProject(nameOrId: string): ProjectResource | null; // Case-insensitive name match, across organizations
+    getTasks(projectId: string): TaskResource[];
+    getTags(organizationId?: string): TagResource[];
+    getTimeEntries(query?: PublicTimeEntryQuery): Promise<TimeEntryResource[]>;
+}
+
+export function createPublicApi(plugin: SolidTimePlugin): SolidTimePublicApi {
+    const copy = <T>(resource: T): T => ({ ...resource });
+
+    const toTimerOptions = async (options: PublicTimerOptions) => {
+        const projectId = options.projectId || null;
+        const project = plugin.orgCache.findProject(projectId);
+        const orgId = plugin.getTimerOrgId(projectId);
+        let start: string | undefined;
+        if (options.start) {
+            // ISO 8601 timestamps (with zone) become the local time resolveStartInput understands
+            const iso = moment(options.start, moment.ISO_8601, true);
+            const input = iso.isValid() ? iso.local().format('YYYY-MM-DD HH:mm:ss') : options.start;
+            const resolved = await plugin.resolveStartInput(input, orgId);
+            if (!resolved) return null;
+            start = resolved;
+        }
+        return {
+            description: options.description ?? null,
+            projectId: projectId,
+            taskId: options.taskId || null,
+            tagIds: options.tagIds || [],
+            billable: options.billable ?? (project ? project.is_billable : plugin.settings.defaultBillable),
+            start: start,
+            organizationId: orgId,
+        };
+    };
+
+    return {
+        version: PUBLIC_API_VERSION,
+
+        getActiveTimeEntry: () => plugin.activeTimeEntry ? copy(plugin.activeTimeEntry) : null,
+
+        startTimer: async (options = {}) => {
+            const timerOptions = await toTimerOptions(options);
+            const entry = timerOptions ? await plugin.startTimer(timerOptions) : null;
+            return entry ? copy(entry) : null;
+        },
+
+        stopTimer: async () => {
+            const entry = await plugin.stopCurrentTimer();
+            return entry ? copy(entry) : null;
+        },
+
+        switchTimer: async (options = {}) => {
+            const timerOptions = await toTimerOptions(options);
+            const entry = timerOptions ? await plugin.switchTimer(timerOptions) : null;
+            return entry ? copy(entry) : null;
+        },
+
+        getProjects: (organizationId = plugin.settings.selectedOrganizationId) =>
+            plugin.orgCache.get(organizationId).projects.map(copy),
+
+        findProject: (nameOrId) => {
+            const project = plugin.orgCache.findProjectByName(nameOrId, plugin.settings.selectedOrganizationId);
+            return project ? copy(project) : null;
+        },
+
+        getTasks: (projectId) => plugin.getTasksForProject(projectId).map(copy),
+
+        getTags: (organizationId = plugin.settings.selectedOrganizationId) =>
+            plugin.orgCache.get(organizationId).tags.map(copy),
+
+        getTimeEntries: async (query = {}) => {
+            if (!plugin.api) return [];
+            const orgId = query.organizationId || plugin.settings.selectedOrganizationId;
+            const memberId = await plugin.getMemberIdForOrg(orgId);
+            const response = await plugin.api.getTimeEntries(orgId, {
+                memberId: memberId || undefined,
+                start: query.start,
+                end: query.end,
+                projectIds: query.projectId ? [query.projectId] : undefined,
+                limit: query.limit ?? 50,
+            });
+            return response.data.map(copy);
+        },
+    };
+}
+
+// Fires the timer events for a change of the running entry, whether made by us or noticed by polling
+export function triggerTimerEvents(workspace: Workspace, previous: TimeEntryResource | null, next: TimeEntryResource | null) {
+    if (previous && next && (previous.id === next.id || (isOfflineEntryId(previous.id) && previous.start === next.start))) {
+        // Same entry (an offline one may have just received its server ID)
+        if (JSON.stringify(previous) !== JSON.stringify(next)) workspace.trigger(TIMER_UPDATED_EVENT, { ...next });
+        return;
+    }
+    if (previous) workspace.trigger(TIMER_STOPPED_EVENT, { ...previous });
+    if (next) workspace.trigger(TIMER_STARTED_EVENT, { ...next });
+}
@@ -1,16 +1,55 @@
-import { App, PluginSettingTab, Setting, Notice} from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, moment } from 'obsidian';
 import SolidTimePlugin from '../main';
-import { SolidTimeApi } from './api';
 import { PersonalMembershipResource } from './types';
+import { PendingAction } from './offlineQueue';
+import { SolidTimeAuthError, SolidTimeNetworkError, describeError } from './errors';
+import { daysUntil, getTokenExpiry, getTokenScopes, isTokenExpired } from './apiToken';
+import { parseWorkEndTime } from './timerLimit';
+import { PresetModal } from './modals';
+
+// A named timer that can be started with its own command (and hotkey)
+export interface TimerPreset {
+    id: string; // Part of the command ID, stays the same when the preset is renamed so hotkeys keep working
+    name: string;
+    description: string | null;
+    projectId: string | null;
+    taskId: string | null;
+    tagIds: string[];
+    billable: boolean;
+    organizationId: string; // Tags (and a missing project) are organization specific
+}
 
 export interface SolidTimeSettings {
     apiKey: string;
     apiBaseUrl: string;
     selectedOrganizationId: string;
     selectedMemberId: string; // Member ID within the selected organization
-    statusBarUpdateIntervalSeconds: number;
+    statusPollIntervalSeconds: number; // Server checks of the running timer, adapted by PollScheduler, 0 disables
     autoFetchIntervalMinutes: number;
     defaultBillable: boolean;
+    showDoneTasks: boolean; // Include completed tasks in the task pickers
+    showAllOrganizationsInPickers: boolean; // Project pickers list every organization's projects, not just the selected one's
+    showEarnings: boolean; // Show the money value of billable time, if the organization lets us see rates
+    requestRetries: number; // Retries for transient API failures (network, 5xx, 429)
+    retryBaseDelaySeconds: number; // First retry delay, doubled for each further retry
+    tokenExpiryWarningDays: number; // Warn this many days before the API token expires, 0 disables
+    idleThresholdMinutes: number; // Ask what to do with the time after this long without activity, 0 disables
+    maxTimerHours: number; // Ask to stop a timer running longer than this, 0 disables
+    workEndTime: string; // "HH:mm", ask to stop a timer still running after it, '' disables
+    focusWorkMinutes: number;
+    focusShortBreakMinutes: number;
+    focusLongBreakMinutes: number;
+    focusLongBreakEvery: number; // Work phases per long break, 0 for short breaks only
+    focusStopTimerOnBreak: boolean; // Stop the timer during breaks and restart it afterwards, otherwise it keeps running
+    focusBreakProjectId: string; // Track breaks on this project (with focusStopTimerOnBreak), '' for none
+    focusBreakTagId: string; // Tag for break entries, '' for none
+    presets: TimerPreset[]; // Replaced, never mutated, the defaults share this array
+
+    // Persisted plugin state, not shown in the settings tab
+    pendingActions: PendingAction[]; // Offline queue, see OfflineQueue
+    memberIds: Record<string, Record<string, string>>; // orgId -> userId -> member ID, see getMemberIdForOrg
+    lastTokenExpiryWarning: string; // YYYY-MM-DD of the last expiry warning, see checkTokenExpiry
+    focusStats: { date: string; sessions: number }; // Completed focus sessions on that day (YYYY-MM-DD)
 }
 
 export const DEFAULT_SETTINGS: SolidTimeSettings = {
@@ -18,14 +57,36 @@ export const DEFAULT_SETTINGS: SolidTimeSettings = {
     apiBaseUrl: 'https://app.solidtime.io/api', // Default to production
     selectedOrganizationId: '',
     selectedMemberId: '',
-    statusBarUpdateIntervalSeconds: 30,
+    statusPollIntervalSeconds: 30,
     autoFetchIntervalMinutes: 15,
     defaultBillable: false,
+    showDoneTasks: false,
+    showAllOrganizationsInPickers: false,
+    showEarnings: true,
+    requestRetries: 2,
+    retryBaseDelaySeconds: 1,
+    tokenExpiryWarningDays: 7,
+    idleThresholdMinutes: 15,
+    maxTimerHours: 10,
+    workEndTime: '',
+    focusWorkMinutes: 25,
+    focusShortBreakMinutes: 5,
+    focusLongBreakMinutes: 15,
+    focusLongBreakEvery: 4,
+    focusStopTimerOnBreak: true,
+    focusBreakProjectId: '',
+    focusBreakTagId: '',
+    presets: [],
+    pendingActions: [],
+    memberIds: {},
+    lastTokenExpiryWarning: '',
+    focusStats: { date: '', sessions: 0 },
 };
 
 export class SolidTimeSettingTab extends PluginSettingTab {
     plugin: SolidTimePlugin;
     private memberships: PersonalMembershipResource[] = [];
+    private membershipsError: string | null = null; // Why the last fetch failed, shown under the dropdown
 
     constructor(app: App, plugin: SolidTimePlugin) {
         super(app, plugin);
@@ -34,12 +95,26 @@ export class SolidTimeSettingTab extends PluginSettingTab {
 
     async fetchMemberships() {
         this.memberships = [];
+        this.membershipsError = null;
         if (this.plugin.settings.apiKey && this.plugin.settings.apiBaseUrl && this.plugin.api) {
             try {
                 this.memberships = await this.plugin.api.getMemberships();
+                // Share with the plugin, it uses them for switching and organization names
+                this.plugin.memberships = this.memberships;
+                await this.plugin.rememberMembershipIds();
             } catch (error) {
                 console.error("SolidTime: Failed to fetch memberships for settings", error);
-                new Notice("Failed to fetch SolidTime organizations. Check API key/URL or console.");
+                if (error instanceof SolidTimeAuthError) {
+                    // An expired token (known from the token itself) or a 403 gets a specific explanation
+                    this.membershipsError = error.status === 401 && !isTokenExpired(this.plugin.apiTokenInfo)
+                        ? 'SolidTime rejected the API key. Check that it is correct and not expired or revoked.'
+                        : this.plugin.describeError(error);
+                } else if (error instanceof SolidTimeNetworkError) {
+                    this.membershipsError = 'Could not reach SolidTime. Check the base URL and your connection.';
+                } else {
+                    this.membershipsError = `Could not load organizations: ${describeError(error)}`;
+                }
+                new Notice(`SolidTime: ${this.membershipsError}`);
             }
         }
         // else { console.log("SolidTime: Skipping membership fetch..."); }
@@ -84,6 +159,18 @@ export class SolidTimeSettingTab extends PluginSettingTab {
                     this.display(); // Refresh to update org dropdown
                 }));
 
+        if (this.plugin.settings.apiKey && this.plugin.api) {
+            new Setting(containerEl)
+                .setName('API token')
+                .setDesc(this.describeApiToken())
+                .addButton(button => button
+                    .setButtonText('Check token')
+                    .onClick(async () => {
+                        await this.plugin.loadApiTokenInfo();
+                        this.display();
+                    }));
+        }
+
         const orgSetting = new Setting(containerEl)
             .setName('Active organization')
             .setDesc('Select the SolidTime organization to use.');
@@ -95,7 +182,7 @@ export class SolidTimeSettingTab extends PluginSettingTab {
             orgSetting.setDesc('Enter API Key and Base URL above to load organizations.');
         } else if (this.memberships.length === 0) {
             // Add a button to manually refresh if fetch failed
-            orgSetting.setDesc('Could not load organizations. Check API Key/URL or network.');
+            orgSetting.setDesc(this.membershipsError || 'Could not load organizations. Check API Key/URL or network.');
             orgSetting.addButton(button => button
                 .setButtonText('Retry fetch')
                 .onClick(async () => {
@@ -120,16 +207,13 @@ export class SolidTimeSettingTab extends PluginSettingTab {
             dropdown.setDisabled(!canSelectOrg); // Disable if needed
             dropdown.onChange(async (value) => {
                 const selectedMembership = this.memberships.find(m => m.organization?.id === value);
-                this.plugin.settings.selectedOrganizationId = value;
                 // Assumption: The membership ID is the required member_id for API calls within that org
-                this.plugin.settings.selectedMemberId = selectedMembership ? selectedMembership.id : '';
-                if (!this.plugin.settings.selectedMemberId && value) {
+                if (!selectedMembership && value) {
                     console.error("Could not find member_id (membership id) for selected organization:", value);
                     new Notice("Error finding member ID for selected organization. Please re-fetch.");
                 }
-                await this.plugin.saveSettings();
-                // Trigger data refresh in main plugin AFTER saving
-                this.plugin.loadSolidTimeData();
+                // Keeps the other organizations' cached data, unlike a full settings save
+                await this.plugin.switchOrganization(value);
             });
         });
 
@@ -145,15 +229,90 @@ export class SolidTimeSettingTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('Status bar update interval (seconds)')
-            .setDesc('How often to check for the current timer status (0 to disable).')
+            .setName('Show earnings')
+            .setDesc("Show the money value of billable time, using the project's, your member or the organization's billable rate. Hidden if your organization doesn't show rates to employees.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showEarnings)
+                .onChange(async (value) => {
+                    this.plugin.settings.showEarnings = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                    this.plugin.renderStatusBar();
+                    this.plugin.updateSolidTimeView();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show done tasks')
+            .setDesc('Include completed tasks in the task pickers so they can be reopened.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showDoneTasks)
+                .onChange(async (value) => {
+                    this.plugin.settings.showDoneTasks = value;
+                    await this.plugin.saveSettings(); // Reloads the task cache
+                }));
+
+        new Setting(containerEl)
+            .setName('Projects from all organizations')
+            .setDesc('Project pickers list the projects of every organization you belong to. A timer started on such a project runs in its organization.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showAllOrganizationsInPickers)
+                .onChange(async (value) => {
+                    this.plugin.settings.showAllOrganizationsInPickers = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('Idle detection (minutes)')
+            .setDesc('When you come back to Obsidian after this long without keyboard or mouse activity while a timer runs, choose whether to keep, discard or split off the idle time (0 to disable).')
             .addText(text => text
-                .setValue(String(this.plugin.settings.statusBarUpdateIntervalSeconds))
+                .setValue(String(this.plugin.settings.idleThresholdMinutes))
+                .onChange(async (value) => {
+                    const numberValue = parseInt(value, 10);
+                    if (!isNaN(numberValue) && numberValue >= 0) {
+                        this.plugin.settings.idleThresholdMinutes = numberValue;
+                        await this.plugin.saveData(this.plugin.settings);
+                    } else {
+                        new Notice("Please enter a valid number (0 or greater).");
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Maximum timer duration (hours)')
+            .setDesc('Timers running longer than this are probably forgotten. You are asked whether to stop them at this limit or at your last activity (0 to disable).')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.maxTimerHours))
+                .onChange(async (value) => {
+                    const numberValue = parseFloat(value);
+                    if (!isNaN(numberValue) && numberValue >= 0) {
+                        this.plugin.settings.maxTimerHours = numberValue;
+                        await this.plugin.saveData(this.plugin.settings);
+                    } else {
+                        new Notice("Please enter a valid number (0 or greater).");
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Work ends at')
+            .setDesc('Timers still running after this time (e.g. "18:00") are probably forgotten, you are asked whether to stop them. Leave empty to disable.')
+            .addText(text => text
+                .setPlaceholder('18:00')
+                .setValue(this.plugin.settings.workEndTime)
+                .onChange(async (value) => {
+                    const trimmed = value.trim();
+                    if (trimmed && parseWorkEndTime(trimmed) === null) return; // Wait until it's a valid time
+                    this.plugin.settings.workEndTime = trimmed;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        new Setting(containerEl)
+            .setName('Server check interval (seconds)')
+            .setDesc('How often to ask SolidTime whether the timer was changed elsewhere (0 to disable). Checks are quicker for a minute after your own changes, slower while you are away, and paused while Obsidian is hidden. The displayed duration ticks every second regardless.')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.statusPollIntervalSeconds))
                 .onChange(async (value) => {
                     const numberValue = parseInt(value, 10);
                     // Allow 0 to disable
                     if (!isNaN(numberValue) && numberValue >= 0) {
-                        this.plugin.settings.statusBarUpdateIntervalSeconds = numberValue;
+                        this.plugin.settings.statusPollIntervalSeconds = numberValue;
                         await this.plugin.saveSettings();
                         this.plugin.setupIntervals(); // Re-setup intervals with new value
                     } else {
@@ -178,5 +337,190 @@ export class SolidTimeSettingTab extends PluginSettingTab {
                         new Notice("Please enter a valid number (0 or greater).");
                     }
                 }));
+
+        new Setting(containerEl)
+            .setName('Request retries')
+            .setDesc('How often to retry a request after a network error, server error or rate limit (0 to disable). New time entries are only retried after a rate limit.')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.requestRetries))
+                .onChange(async (value) => {
+                    const numberValue = parseInt(value, 10);
+                    if (!isNaN(numberValue) && numberValue >= 0 && numberValue <= 10) {
+                        this.plugin.settings.requestRetries = numberValue;
+                        await this.plugin.saveSettings();
+                    } else {
+                        new Notice("Please enter a number between 0 and 10.");
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Retry delay (seconds)')
+            .setDesc('Wait before the first retry. Each further retry waits about twice as long.')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.retryBaseDelaySeconds))
+                .onChange(async (value) => {
+                    const numberValue = parseFloat(value);
+                    if (!isNaN(numberValue) && numberValue > 0) {
+                        this.plugin.settings.retryBaseDelaySeconds = numberValue;
+                        await this.plugin.saveSettings();
+                    } else {
+                        new Notice("Please enter a number greater than 0.");
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Token expiry warning (days)')
+            .setDesc('Warn this many days before the API token expires (0 to disable).')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.tokenExpiryWarningDays))
+                .onChange(async (value) => {
+                    const numberValue = parseInt(value, 10);
+                    if (!isNaN(numberValue) && numberValue >= 0) {
+                        this.plugin.settings.tokenExpiryWarningDays = numberValue;
+                        this.plugin.settings.lastTokenExpiryWarning = ''; // Check again with the new value
+                        await this.plugin.saveData(this.plugin.settings);
+                        await this.plugin.checkTokenExpiry();
+                    } else {
+                        new Notice("Please enter a valid number (0 or greater).");
+                    }
+                }));
+
+        this.displayFocusSettings(containerEl);
+        this.displayPresetSettings(containerEl);
     }
-}
\ No newline at end of file
+
+    displayFocusSettings(containerEl: HTMLElement) {
+        new Setting(containerEl).setName('Focus sessions').setHeading();
+
+        const minutesSetting = (name: string, desc: string, key: 'focusWorkMinutes' | 'focusShortBreakMinutes' | 'focusLongBreakMinutes' | 'focusLongBreakEvery', min: number) => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setValue(String(this.plugin.settings[key]))
+                    .onChange(async (value) => {
+                        const numberValue = parseInt(value, 10);
+                        if (!isNaN(numberValue) && numberValue >= min) {
+                            this.plugin.settings[key] = numberValue;
+                            await this.plugin.saveData(this.plugin.settings);
+                        } else {
+                            new Notice(`Please enter a number of at least ${min}.`);
+                        }
+                    }));
+        };
+        minutesSetting('Focus length (minutes)', 'Length of a work phase. Applies to the next focus session.', 'focusWorkMinutes', 1);
+        minutesSetting('Short break (minutes)', 'Break after a work phase.', 'focusShortBreakMinutes', 1);
+        minutesSetting('Long break (minutes)', 'Break after every few work phases.', 'focusLongBreakMinutes', 1);
+        minutesSetting('Long break every', 'Work phases until a long break (0 for short breaks only).', 'focusLongBreakEvery', 0);
+
+        new Setting(containerEl)
+            .setName('Stop the timer during breaks')
+            .setDesc('Stop the SolidTime entry when a break starts and start it again when the break is over. Otherwise the entry keeps running.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.focusStopTimerOnBreak)
+                .onChange(async (value) => {
+                    this.plugin.settings.focusStopTimerOnBreak = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                }));
+
+        // Projects and tags of the selected organization
+        new Setting(containerEl)
+            .setName('Break project')
+            .setDesc('Track breaks as entries on this project while the timer is stopped for them.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', '-- No break entries --');
+                this.plugin.projects.forEach(project => dropdown.addOption(project.id, this.plugin.getProjectLabel(project)));
+                dropdown.setValue(this.plugin.settings.focusBreakProjectId);
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.focusBreakProjectId = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Break tag')
+            .setDesc('Tag for break entries. Also creates break entries without a break project.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', '-- None --');
+                this.plugin.tags.forEach(tag => dropdown.addOption(tag.id, tag.name));
+                dropdown.setValue(this.plugin.settings.focusBreakTagId);
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.focusBreakTagId = value;
+                    await this.plugin.saveData(this.plugin.settings);
+                });
+            });
+    }
+
+    displayPresetSettings(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Timer presets')
+            .setDesc('Timers you start often. Each preset gets a "Start preset" command you can assign a hotkey to.')
+            .setHeading();
+
+        const savePresets = async (presets: TimerPreset[]) => {
+            await this.plugin.savePresets(presets);
+            this.display();
+        };
+
+        this.plugin.settings.presets.forEach(preset => {
+            new Setting(containerEl)
+                .setName(preset.name)
+                .setDesc(this.plugin.describePreset(preset))
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit preset')
+                    .onClick(() => {
+                        new PresetModal(this.app, this.plugin, preset, false, (edited) => {
+                            savePresets(this.plugin.settings.presets.map(other => other.id === edited.id ? edited : other));
+                        }).open();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete preset')
+                    .onClick(() => {
+                        savePresets(this.plugin.settings.presets.filter(other => other.id !== preset.id));
+                    }));
+        });
+
+        const addPreset = (preset: TimerPreset) => {
+            new PresetModal(this.app, this.plugin, preset, true, (created) => {
+                savePresets([...this.plugin.settings.presets, created]);
+            }).open();
+        };
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add preset')
+                .onClick(() => addPreset(this.plugin.createPreset(null))))
+            .addButton(button => button
+                .setButtonText('Add from current timer')
+                .setDisabled(!this.plugin.activeTimeEntry)
+                .onClick(() => addPreset(this.plugin.createPreset(this.plugin.activeTimeEntry))));
+    }
+
+    // Name, expiry and scopes of the configured token, from plugin.apiTokenInfo
+    describeApiToken(): string {
+        const info = this.plugin.apiTokenInfo;
+        if (!info) return 'Token details not loaded yet.';
+
+        const parts: string[] = [];
+        if (info.token) parts.push(`"${info.token.name}"`);
+        if (info.token?.revoked) parts.push('revoked');
+
+        const expiresAt = getTokenExpiry(info);
+        if (!expiresAt) {
+            if (info.token || info.claims) parts.push('does not expire');
+        } else if (isTokenExpired(info)) {
+            parts.push(`expired on ${moment(expiresAt).format('ll')}`);
+        } else {
+            const days = daysUntil(expiresAt);
+            parts.push(`expires ${moment(expiresAt).format('ll')} (${days === 0 ? 'today' : `in ${days} day${days === 1 ? '' : 's'}`})`);
+        }
+
+        const scopes = getTokenScopes(info);
+        if (scopes.length > 0) parts.push(`scopes: ${scopes.join(', ')}`);
+
+        let description = parts.length > 0 ? parts.join(' · ') : 'No details available for this token.';
+        if (info.error) description += ` (${info.error})`;
+        return description;
+    }
+}
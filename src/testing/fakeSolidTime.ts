@@ -0,0 +1,684 @@
+import { HttpRequest, HttpResponse, HttpTransport } from '../transport';
+import {
+    ApiTokenResource,
+    ClientResource,
+    MemberResource,
+    OrganizationResource,
+    PersonalMembershipResource,
+    ProjectResource,
+    TagResource,
+    TaskResource,
+    TimeEntryResource,
+    UserResource,
+} from '../types';
+
+// In-memory SolidTime backend for driving SolidTimeApi (and the plugin flows built on it)
+// without a real server:
+//
+//   const server = new FakeSolidTimeServer();
+//   const { token, orgId, memberId } = server.seedUser('Ada');
+//   const api = new SolidTimeApi(token, server.baseUrl, { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 }, server);
+//
+// Covers the endpoints the plugin uses: users/me, memberships, API tokens, active time entry, organizations,
+// members, projects, tasks, tags, clients and time entries. List endpoints paginate like the real API
+// (links.next for most lists, limit/offset + meta.total for time entries), with a small page
+// size so pagination is exercised. Nothing here imports obsidian, so it runs in plain Node.
+
+export interface FakeRequestLogEntry {
+    method: string;
+    path: string; // Without base URL and query string
+    query: URLSearchParams;
+    body: unknown;
+}
+
+interface FakeApiToken extends ApiTokenResource {
+    user_id: string;
+}
+
+
+interface FakeMember extends MemberResource {
+    organization_id: string;
+    role: string;
+}
+
+interface FakeProject extends ProjectResource {
+    organization_id: string;
+    is_archived: boolean;
+}
+
+interface FakeTask extends TaskResource {
+    organization_id: string;
+}
+
+interface FakeTag extends TagResource {
+    organization_id: string;
+}
+
+interface FakeClient extends ClientResource {
+    organization_id: string;
+    is_archived: boolean;
+}
+
+// Fault injected into upcoming requests, see failNext()
+interface FakeFault {
+    status: number | 'network';
+    remaining: number;
+    retryAfter?: string;
+    path?: string; // Only requests whose path contains this
+}
+
+// Thrown by route handlers to answer with a non-2xx status
+class FakeHttpError extends Error {
+    status: number;
+    body: unknown;
+
+    constructor(status: number, body: unknown) {
+        super(`Fake SolidTime ${status}`);
+        this.status = status;
+        this.body = body;
+    }
+}
+
+export class FakeSolidTimeServer implements HttpTransport {
+    baseUrl: string;
+    pageSize: number; // per_page for links-paginated lists
+    requests: FakeRequestLogEntry[] = [];
+
+    users: UserResource[] = [];
+    apiTokens: FakeApiToken[] = [];
+    organizations: OrganizationResource[] = [];
+    members: FakeMember[] = [];
+    projects: FakeProject[] = [];
+    tasks: FakeTask[] = [];
+    tags: FakeTag[] = [];
+    clients: FakeClient[] = [];
+    timeEntries: TimeEntryResource[] = [];
+
+    private tokens: Record<string, string> = {}; // API token -> user id
+    private tokenIds: Record<string, string> = {}; // API token -> ApiTokenResource id, for seedApiToken's tokens
+    private faults: FakeFault[] = [];
+    private nextId = 1;
+    private now: () => Date;
+
+    constructor(baseUrl = 'https://solidtime.test/api', pageSize = 2, now: () => Date = () => new Date()) {
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.pageSize = pageSize;
+        this.now = now;
+    }
+
+    // --- Seeding ---
+
+    // Creates a user with a token and (unless given) a personal organization they belong to
+    seedUser(name: string, orgId?: string): { token: string; userId: string; orgId: string; memberId: string } {
+        const userId = this.createId('user');
+        this.users.push({
+            id: userId,
+            name: name,
+            email: `${name.toLowerCase().replace(/\s+/g, '.')}@example.com`,
+            profile_photo_url: '',
+            timezone: 'UTC',
+            week_start: 'monday',
+        });
+        const token = `token-${userId}`;
+        this.tokens[token] = userId;
+
+        const organizationId = orgId ?? this.seedOrganization(`${name}'s Organization`);
+        const memberId = this.seedMember(organizationId, userId);
+        return { token, userId, orgId: organizationId, memberId };
+    }
+
+    // Adds a JWT shaped token like SolidTime's personal access tokens (jti = token id, exp, scopes).
+    // The returned token authenticates as the user until it expires or is revoked.
+    seedApiToken(userId: string, fields: Partial<ApiTokenResource> = {}): { token: string; resource: ApiTokenResource } {
+        const resource: FakeApiToken = {
+            id: this.createId('token'),
+            name: 'Obsidian',
+            revoked: false,
+            scopes: [],
+            created_at: this.timestamp(),
+            expires_at: null,
+            ...fields,
+            user_id: userId,
+        };
+        this.apiTokens.push(resource);
+        const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+        const claims = {
+            jti: resource.id,
+            sub: userId,
+            scopes: resource.scopes,
+            exp: resource.expires_at ? Math.floor(Date.parse(resource.expires_at) / 1000) : undefined,
+        };
+        const token = `${encode({ typ: 'JWT', alg: 'RS256' })}.${encode(claims)}.signature`;
+        this.tokens[token] = userId;
+        this.tokenIds[token] = resource.id;
+        return { token, resource: this.stripUser(resource) };
+    }
+
+    seedOrganization(name: string, currency = 'EUR', fields: Partial<OrganizationResource> = {}): string {
+        const id = this.createId('org');
+        this.organizations.push({
+            id: id,
+            name: name,
+            is_personal: false,
+            billable_rate: null,
+            employees_can_see_billable_rates: false,
+            currency: currency,
+            ...fields,
+        });
+        return id;
+    }
+
+    seedMember(orgId: string, userId: string, role = 'owner'): string {
+        const user = this.users.find(u => u.id === userId);
+        const id = this.createId('member');
+        this.members.push({
+            id: id,
+            user_id: userId,
+            name: user?.name ?? '',
+            email: user?.email ?? '',
+            role: role,
+            is_placeholder: false,
+            billable_rate: null,
+            organization_id: orgId,
+        });
+        return id;
+    }
+
+    seedProject(orgId: string, name: string, fields: Partial<ProjectResource> = {}): ProjectResource {
+        const project: FakeProject = {
+            id: this.createId('project'),
+            name: name,
+            color: '#ef5350',
+            client_id: null,
+            is_archived: false,
+            billable_rate: null,
+            is_billable: false,
+            estimated_time: null,
+            spent_time: 0,
+            is_public: false,
+            ...fields,
+            organization_id: orgId,
+        };
+        this.projects.push(project);
+        return this.strip(project);
+    }
+
+    seedTask(orgId: string, projectId: string, name: string, fields: Partial<TaskResource> = {}): TaskResource {
+        const timestamp = this.timestamp();
+        const task: FakeTask = {
+            id: this.createId('task'),
+            name: name,
+            is_done: false,
+            project_id: projectId,
+            estimated_time: null,
+            spent_time: 0,
+            created_at: timestamp,
+            updated_at: timestamp,
+            ...fields,
+            organization_id: orgId,
+        };
+        this.tasks.push(task);
+        return this.strip(task);
+    }
+
+    seedTag(orgId: string, name: string): TagResource {
+        const timestamp = this.timestamp();
+        const tag: FakeTag = { id: this.createId('tag'), name, created_at: timestamp, updated_at: timestamp, organization_id: orgId };
+        this.tags.push(tag);
+        return this.strip(tag);
+    }
+
+    seedClient(orgId: string, name: string, fields: Partial<ClientResource> = {}): ClientResource {
+        const timestamp = this.timestamp();
+        const client: FakeClient = {
+            id: this.createId('client'),
+            name: name,
+            is_archived: false,
+            created_at: timestamp,
+            updated_at: timestamp,
+            ...fields,
+            organization_id: orgId,
+        };
+        this.clients.push(client);
+        return this.strip(client);
+    }
+
+    seedTimeEntry(orgId: string, userId: string, fields: Partial<TimeEntryResource> & { start: string }): TimeEntryResource {
+        const entry: TimeEntryResource = {
+            id: this.createId('entry'),
+            end: null,
+            duration: null,
+            description: null,
+            task_id: null,
+            project_id: null,
+            tags: [],
+            billable: false,
+            ...fields,
+            organization_id: orgId,
+            user_id: userId,
+        };
+        entry.duration = this.getDuration(entry.start, entry.end);
+        this.timeEntries.push(entry);
+        return { ...entry };
+    }
+
+    // --- Fault injection ---
+
+    // Makes the next `count` requests (optionally only those whose path contains `path`)
+    // fail with the given status, or without any response for 'network'
+    failNext(status: number | 'network', count = 1, options: { retryAfter?: string; path?: string } = {}) {
+        this.faults.push({ status, remaining: count, retryAfter: options.retryAfter, path: options.path });
+    }
+
+    clearFaults() {
+        this.faults = [];
+    }
+
+    // --- HttpTransport ---
+
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const url = new URL(request.url);
+        const path = url.pathname.replace(new URL(this.baseUrl).pathname.replace(/\/$/, ''), '');
+        const method = request.method.toUpperCase();
+        let body: unknown = null;
+        if (request.body) {
+            try {
+                body = JSON.parse(request.body);
+            } catch (e) {
+                return this.respond(400, { message: 'Malformed JSON body.' });
+            }
+        }
+        this.requests.push({ method, path, query: url.searchParams, body });
+
+        const fault = this.faults.find(f => f.remaining > 0 && (!f.path || path.includes(f.path)));
+        if (fault) {
+            fault.remaining--;
+            this.faults = this.faults.filter(f => f.remaining > 0);
+            if (fault.status === 'network') {
+                throw new Error('net::ERR_INTERNET_DISCONNECTED');
+            }
+            const headers: Record<string, string> = fault.retryAfter ? { 'retry-after': fault.retryAfter } : {};
+            return this.respond(fault.status, { message: 'Injected failure.' }, headers);
+        }
+
+        const headers: Record<string, string> = {};
+        Object.entries(request.headers || {}).forEach(([name, value]) => {
+            headers[name.toLowerCase()] = value;
+        });
+        const token = (headers['authorization'] || '').replace(/^Bearer\s+/i, '');
+        const userId = this.tokens[token];
+        if (!userId || !this.isTokenUsable(token)) {
+            return this.respond(401, { message: 'Unauthenticated.' });
+        }
+
+        try {
+            const result = this.route(method, path, url.searchParams, body, userId);
+            return result === null ? this.respond(204, null) : this.respond(result.status, result.body);
+        } catch (error) {
+            if (error instanceof FakeHttpError) {
+                return this.respond(error.status, error.body);
+            }
+            throw error;
+        }
+    }
+
+    // --- Routing ---
+
+    private route(
+        method: string,
+        path: string,
+        query: URLSearchParams,
+        body: unknown,
+        userId: string
+    ): { status: number; body: unknown } | null {
+        if (method === 'GET' && path === '/v1/users/me') {
+            return this.ok({ data: this.users.find(u => u.id === userId) });
+        }
+        if (method === 'GET' && path === '/v1/users/me/api-tokens') {
+            return this.ok({ data: this.apiTokens.filter(t => t.user_id === userId).map(t => this.stripUser(t)) });
+        }
+        if (method === 'GET' && path === '/v1/users/me/memberships') {
+            return this.ok({ data: this.getMemberships(userId) });
+        }
+        if (method === 'GET' && path === '/v1/users/me/time-entries/active') {
+            const active = this.timeEntries.find(e => e.user_id === userId && e.end === null);
+            if (!active) throw new FakeHttpError(404, { message: 'No active time entry.' });
+            return this.ok({ data: active });
+        }
+
+        const organizationMatch = path.match(/^\/v1\/organizations\/([^/]+)$/);
+        if (method === 'GET' && organizationMatch) {
+            const organization = this.organizations.find(o => o.id === organizationMatch[1]);
+            if (!organization || !this.members.some(m => m.organization_id === organization.id && m.user_id === userId)) {
+                throw new FakeHttpError(403, { message: 'This action is unauthorized.' });
+            }
+            return this.ok({ data: organization });
+        }
+
+        const match = path.match(/^\/v1\/organizations\/([^/]+)\/([a-z-]+)(?:\/([^/]+))?$/);
+        if (!match) throw new FakeHttpError(404, { message: `No route for ${method} ${path}.` });
+        const [, orgId, collection, itemId] = match;
+        const member = this.members.find(m => m.organization_id === orgId && m.user_id === userId);
+        if (!member) throw new FakeHttpError(403, { message: 'This action is unauthorized.' });
+
+        const route = `${method} ${collection}${itemId ? '/{id}' : ''}`;
+        switch (route) {
+            case 'GET members':
+                return this.ok(this.paginate(this.members.filter(m => m.organization_id === orgId), query, path));
+            case 'GET projects':
+                return this.ok(this.paginate(this.filterArchived(this.projects, orgId, query), query, path));
+            case 'GET clients':
+                return this.ok(this.paginate(this.filterArchived(this.clients, orgId, query), query, path));
+            case 'GET tasks':
+                return this.ok(this.paginate(this.filterTasks(orgId, query), query, path));
+            case 'GET tags':
+                return this.ok(this.paginate(this.tags.filter(t => t.organization_id === orgId), query, path));
+            case 'POST projects':
+                return this.created(this.storeProject(orgId, body));
+            case 'POST tasks':
+                return this.created(this.storeTask(orgId, body));
+            case 'PUT tasks/{id}':
+                return this.ok({ data: this.updateTask(orgId, itemId, body) });
+            case 'POST tags':
+                return this.created(this.storeTag(orgId, body));
+            case 'GET time-entries':
+                return this.ok(this.listTimeEntries(orgId, query));
+            case 'POST time-entries':
+                return this.created(this.storeTimeEntry(orgId, body));
+            case 'PUT time-entries/{id}':
+                return this.ok({ data: this.updateTimeEntry(orgId, itemId, body) });
+            case 'DELETE time-entries/{id}':
+                this.findTimeEntry(orgId, itemId);
+                this.timeEntries = this.timeEntries.filter(e => e.id !== itemId);
+                return null;
+            default:
+                throw new FakeHttpError(404, { message: `No route for ${method} ${path}.` });
+        }
+    }
+
+    // Seeded JWT tokens stop working once revoked or expired, seedUser's plain tokens never do
+    private isTokenUsable(token: string): boolean {
+        const resource = this.apiTokens.find(t => t.id === this.tokenIds[token]);
+        if (!resource) return true;
+        return !resource.revoked && (!resource.expires_at || Date.parse(resource.expires_at) > this.now().getTime());
+    }
+
+    private getMemberships(userId: string): PersonalMembershipResource[] {
+        return this.members.filter(m => m.user_id === userId).map(m => {
+            const org = this.organizations.find(o => o.id === m.organization_id);
+            return {
+                id: m.id,
+                organization: { id: m.organization_id, name: org?.name ?? '', currency: org?.currency ?? 'EUR' },
+                role: m.role,
+            };
+        });
+    }
+
+    private filterArchived<T extends { organization_id: string; is_archived: boolean }>(items: T[], orgId: string, query: URLSearchParams): T[] {
+        const archived = query.get('archived');
+        return items.filter(item => item.organization_id === orgId
+            && (archived === 'all' || item.is_archived === (archived === 'true')));
+    }
+
+    private filterTasks(orgId: string, query: URLSearchParams): FakeTask[] {
+        const done = query.get('done') ?? 'false';
+        const projectId = query.get('project_id');
+        return this.tasks.filter(task => task.organization_id === orgId
+            && (done === 'all' || task.is_done === (done === 'true'))
+            && (!projectId || task.project_id === projectId));
+    }
+
+    // Laravel style page/links/meta, next links are absolute like the real API's
+    private paginate<T extends { organization_id: string }>(items: T[], query: URLSearchParams, path: string) {
+        const page = Math.max(1, Number(query.get('page')) || 1);
+        const lastPage = Math.max(1, Math.ceil(items.length / this.pageSize));
+        const from = (page - 1) * this.pageSize;
+        const data = items.slice(from, from + this.pageSize).map(item => this.strip(item));
+        const pageUrl = (n: number) => {
+            const params = new URLSearchParams(query);
+            params.set('page', String(n));
+            return `${this.baseUrl}${path}?${params.toString()}`;
+        };
+        return {
+            data: data,
+            links: {
+                first: pageUrl(1),
+                last: pageUrl(lastPage),
+                prev: page > 1 ? pageUrl(page - 1) : null,
+                next: page < lastPage ? pageUrl(page + 1) : null,
+            },
+            meta: {
+                current_page: page,
+                from: data.length > 0 ? from + 1 : null,
+                last_page: lastPage,
+                links: [],
+                path: `${this.baseUrl}${path}`,
+                per_page: this.pageSize,
+                to: data.length > 0 ? from + data.length : null,
+                total: items.length,
+            },
+        };
+    }
+
+    private listTimeEntries(orgId: string, query: URLSearchParams) {
+        const limit = Number(query.get('limit') ?? 150);
+        const offset = Number(query.get('offset') ?? 0);
+        if (limit < 1 || limit > 500) {
+            throw this.validationError({ limit: ['The limit field must be between 1 and 500.'] });
+        }
+        const start = query.get('start');
+        const end = query.get('end');
+        const memberIds = [query.get('member_id'), ...query.getAll('member_ids[]')].filter((id): id is string => !!id);
+        const userIds = memberIds.map(id => this.members.find(m => m.id === id)?.user_id);
+        const projectIds = query.getAll('project_ids[]');
+        const taskIds = query.getAll('task_ids[]');
+        const tagIds = query.getAll('tag_ids[]');
+        const billable = query.get('billable');
+        const active = query.get('active');
+
+        const entries = this.timeEntries
+            .filter(e => e.organization_id === orgId)
+            .filter(e => !start || Date.parse(e.start) >= Date.parse(start))
+            .filter(e => !end || Date.parse(e.start) <= Date.parse(end))
+            .filter(e => userIds.length === 0 || userIds.includes(e.user_id))
+            .filter(e => projectIds.length === 0 || (!!e.project_id && projectIds.includes(e.project_id)))
+            .filter(e => taskIds.length === 0 || (!!e.task_id && taskIds.includes(e.task_id)))
+            .filter(e => tagIds.length === 0 || e.tags.some(tag => tagIds.includes(tag)))
+            .filter(e => billable === null || e.billable === (billable === 'true'))
+            .filter(e => active === null || (e.end === null) === (active === 'true'))
+            .sort((a, b) => Date.parse(b.start) - Date.parse(a.start)); // Newest first
+
+        return {
+            data: entries.slice(offset, offset + limit).map(e => ({ ...e })),
+            meta: { total: entries.length },
+        };
+    }
+
+    // --- Writes ---
+
+    private storeProject(orgId: string, body: unknown): ProjectResource {
+        const input = this.requireObject(body);
+        this.requireString(input, 'name');
+        this.requireString(input, 'color');
+        if (typeof input.is_billable !== 'boolean') {
+            throw this.validationError({ is_billable: ['The is billable field is required.'] });
+        }
+        if (this.projects.some(p => p.organization_id === orgId && p.name === input.name)) {
+            throw this.validationError({ name: ['A project with the same name already exists.'] });
+        }
+        return this.seedProject(orgId, input.name as string, {
+            color: input.color as string,
+            is_billable: input.is_billable,
+            client_id: (input.client_id as string | null | undefined) ?? null,
+            billable_rate: (input.billable_rate as number | null | undefined) ?? null,
+            estimated_time: (input.estimated_time as number | null | undefined) ?? null,
+        });
+    }
+
+    private storeTask(orgId: string, body: unknown): TaskResource {
+        const input = this.requireObject(body);
+        this.requireString(input, 'name');
+        this.requireString(input, 'project_id');
+        if (!this.projects.some(p => p.organization_id === orgId && p.id === input.project_id)) {
+            throw this.validationError({ project_id: ['The selected project id is invalid.'] });
+        }
+        return this.seedTask(orgId, input.project_id as string, input.name as string, {
+            estimated_time: (input.estimated_time as number | null | undefined) ?? null,
+        });
+    }
+
+    private updateTask(orgId: string, taskId: string, body: unknown): TaskResource {
+        const task = this.tasks.find(t => t.organization_id === orgId && t.id === taskId);
+        if (!task) throw new FakeHttpError(404, { message: 'Task not found.' });
+        const input = this.requireObject(body);
+        this.requireString(input, 'name');
+        task.name = input.name as string;
+        if (typeof input.is_done === 'boolean') task.is_done = input.is_done;
+        if (input.estimated_time !== undefined) task.estimated_time = input.estimated_time as number | null;
+        task.updated_at = this.timestamp();
+        return this.strip(task);
+    }
+
+    private storeTag(orgId: string, body: unknown): TagResource {
+        const input = this.requireObject(body);
+        this.requireString(input, 'name');
+        if (this.tags.some(t => t.organization_id === orgId && t.name === input.name)) {
+            throw this.validationError({ name: ['A tag with the same name already exists.'] });
+        }
+        return this.seedTag(orgId, input.name as string);
+    }
+
+    private storeTimeEntry(orgId: string, body: unknown): TimeEntryResource {
+        const input = this.requireObject(body);
+        const member = this.requireMember(orgId, input.member_id);
+        this.requireTimestamp(input, 'start');
+        if (typeof input.billable !== 'boolean') {
+            throw this.validationError({ billable: ['The billable field is required.'] });
+        }
+        const end = (input.end as string | null | undefined) ?? null;
+        if (end !== null) this.requireTimestamp(input, 'end');
+        this.checkEntryTimes(input.start as string, end);
+        if (end === null && this.timeEntries.some(e => e.user_id === member.user_id && e.end === null)) {
+            throw this.validationError({ start: ['The user already has an active time entry.'] });
+        }
+        return this.seedTimeEntry(orgId, member.user_id, {
+            start: input.start as string,
+            end: end,
+            billable: input.billable,
+            project_id: (input.project_id as string | null | undefined) ?? null,
+            task_id: (input.task_id as string | null | undefined) ?? null,
+            description: (input.description as string | null | undefined) ?? null,
+            tags: (input.tags as string[] | null | undefined) ?? [],
+        });
+    }
+
+    private updateTimeEntry(orgId: string, entryId: string, body: unknown): TimeEntryResource {
+        const entry = this.findTimeEntry(orgId, entryId);
+        const input = this.requireObject(body);
+        this.requireMember(orgId, input.member_id);
+        if (input.start !== undefined) this.requireTimestamp(input, 'start');
+        if (input.end !== undefined && input.end !== null) this.requireTimestamp(input, 'end');
+
+        const start = (input.start as string | undefined) ?? entry.start;
+        const end = input.end !== undefined ? input.end as string | null : entry.end;
+        this.checkEntryTimes(start, end);
+
+        entry.start = start;
+        entry.end = end;
+        entry.duration = this.getDuration(start, end);
+        if (typeof input.billable === 'boolean') entry.billable = input.billable;
+        if (input.project_id !== undefined) entry.project_id = input.project_id as string | null;
+        if (input.task_id !== undefined) entry.task_id = input.task_id as string | null;
+        if (input.description !== undefined) entry.description = input.description as string | null;
+        if (input.tags !== undefined) entry.tags = (input.tags as string[] | null) ?? [];
+        return { ...entry };
+    }
+
+    // --- Helpers ---
+
+    private findTimeEntry(orgId: string, entryId: string): TimeEntryResource {
+        const entry = this.timeEntries.find(e => e.organization_id === orgId && e.id === entryId);
+        if (!entry) throw new FakeHttpError(404, { message: 'Time entry not found.' });
+        return entry;
+    }
+
+    private requireObject(body: unknown): Record<string, unknown> {
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            throw this.validationError({ body: ['The request body must be a JSON object.'] });
+        }
+        return body as Record<string, unknown>;
+    }
+
+    private requireString(input: Record<string, unknown>, field: string) {
+        if (typeof input[field] !== 'string' || !(input[field] as string).trim()) {
+            throw this.validationError({ [field]: [`The ${field.replace(/_/g, ' ')} field is required.`] });
+        }
+    }
+
+    private requireTimestamp(input: Record<string, unknown>, field: string) {
+        // The real API only accepts UTC timestamps without fractions, e.g. 2024-01-01T09:00:00Z
+        if (typeof input[field] !== 'string' || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(input[field] as string)) {
+            throw this.validationError({ [field]: [`The ${field} field must match the format Y-m-d\\TH:i:s\\Z.`] });
+        }
+    }
+
+    private requireMember(orgId: string, memberId: unknown): FakeMember {
+        const member = this.members.find(m => m.organization_id === orgId && m.id === memberId);
+        if (!member) throw this.validationError({ member_id: ['The selected member id is invalid.'] });
+        return member;
+    }
+
+    private checkEntryTimes(start: string, end: string | null) {
+        if (end !== null && Date.parse(end) < Date.parse(start)) {
+            throw this.validationError({ end: ['The end must be a date after start.'] });
+        }
+    }
+
+    private validationError(errors: Record<string, string[]>): FakeHttpError {
+        const first = Object.values(errors)[0]?.[0] ?? 'The given data was invalid.';
+        return new FakeHttpError(422, { message: first, errors });
+    }
+
+    private getDuration(start: string, end: string | null): number | null {
+        return end === null ? null : Math.round((Date.parse(end) - Date.parse(start)) / 1000);
+    }
+
+    // Drops the fake's bookkeeping fields from a resource
+    private strip<T extends { organization_id: string }>(item: T): Omit<T, 'organization_id'> {
+        const copy: Partial<T> = { ...item };
+        delete copy.organization_id;
+        return copy as Omit<T, 'organization_id'>;
+    }
+
+    private stripUser(token: FakeApiToken): ApiTokenResource {
+        const copy: Partial<FakeApiToken> = { ...token };
+        delete copy.user_id;
+        return copy as ApiTokenResource;
+    }
+
+    private timestamp(): string {
+        return this.now().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    }
+
+    private createId(kind: string): string {
+        return `${kind}-${this.nextId++}`;
+    }
+
+    private ok(body: unknown) {
+        return { status: 200, body };
+    }
+
+    private created(data: unknown) {
+        return { status: 201, body: { data } };
+    }
+
+    private respond(status: number, body: unknown, headers: Record<string, string> = {}): HttpResponse {
+        const text = body === null ? '' : JSON.stringify(body);
+        return {
+            status: status,
+            headers: { 'content-type': 'application/json', ...headers },
+            text: text,
+            json: body === null ? null : JSON.parse(text),
+        };
+    }
+}
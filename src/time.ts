@@ -0,0 +1,93 @@
+import { moment } from 'obsidian';
+import type { Moment } from 'moment';
+
+// Helpers for turning user input into timestamps the SolidTime API accepts
+
+// SolidTime expects UTC timestamps without milliseconds, e.g. 2024-01-31T09:00:00Z
+export function toApiTimestamp(value: Moment): string {
+    return value.clone().utc().format("YYYY-MM-DDTHH:mm:ss") + 'Z';
+}
+
+export function nowApiTimestamp(): string {
+    return toApiTimestamp(moment());
+}
+
+const ABSOLUTE_FORMATS = [
+    'YYYY-MM-DD HH:mm:ss',
+    'YYYY-MM-DD HH:mm',
+    'YYYY-MM-DDTHH:mm:ss',
+    'YYYY-MM-DDTHH:mm',
+];
+
+const TIME_ONLY_FORMATS = ['HH:mm:ss', 'HH:mm', 'H:mm'];
+
+// Parses "09:45" (on the reference day) or "2024-01-31 09:45" in local time.
+// Returns null if the input is not understood.
+export function parseTimeInput(input: string, reference: Moment = moment()): Moment | null {
+    const value = input.trim();
+    if (!value) return null;
+
+    const absolute = moment(value, ABSOLUTE_FORMATS, true);
+    if (absolute.isValid()) return absolute;
+
+    const timeOnly = moment(value, TIME_ONLY_FORMATS, true);
+    if (timeOnly.isValid()) {
+        return reference.clone().local().set({
+            hour: timeOnly.hour(),
+            minute: timeOnly.minute(),
+            second: timeOnly.second(),
+            millisecond: 0,
+        });
+    }
+    return null;
+}
+
+// Parses a timer start: an offset from now like "-10m" or "-1h30m", or a time like "09:45"
+// (today, or yesterday if that time hasn't come yet) or "2024-01-31 09:45".
+// Returns null if the input is not understood.
+export function parseStartInput(input: string, now: Moment = moment()): Moment | null {
+    const value = input.trim();
+    if (value.startsWith('-')) {
+        const offset = parseDurationInput(value.substring(1));
+        return offset === null ? null : now.clone().subtract(offset, 'milliseconds');
+    }
+    const start = parseTimeInput(value, now);
+    if (start && start.isAfter(now) && moment(value, TIME_ONLY_FORMATS, true).isValid()) {
+        // "23:50" shortly after midnight means last night
+        start.subtract(1, 'day');
+    }
+    return start;
+}
+
+// Parses durations like "1h30m", "90m", "45", "1:30" or "1.5h" into milliseconds.
+// A bare number is read as minutes. Returns null if the input is not understood.
+export function parseDurationInput(input: string): number | null {
+    const value = input.trim().toLowerCase();
+    if (!value) return null;
+
+    const clock = value.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+    if (clock) {
+        const [, h, m, s] = clock;
+        return ((parseInt(h, 10) * 60 + parseInt(m, 10)) * 60 + parseInt(s || '0', 10)) * 1000;
+    }
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return Math.round(parseFloat(value) * 60 * 1000);
+    }
+
+    const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?\s*(?:(\d+)\s*s)?$/);
+    if (units && (units[1] || units[2] || units[3])) {
+        const hours = parseFloat(units[1] || '0');
+        const minutes = parseInt(units[2] || '0', 10);
+        const seconds = parseInt(units[3] || '0', 10);
+        return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+    }
+    return null;
+}
+
+// Local "YYYY-MM-DD HH:mm" representation used to prefill time inputs
+export function formatTimeInput(isoTimestamp: string | null): string {
+    if (!isoTimestamp) return '';
+    const parsed = moment.utc(isoTimestamp);
+    return parsed.isValid() ? parsed.local().format('YYYY-MM-DD HH:mm') : '';
+}
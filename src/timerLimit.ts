@@ -0,0 +1,47 @@
+import { moment } from 'obsidian';
+
+// Guard against timers left running overnight: a timer is "forgotten" once it ran longer than the
+// maximum duration or past the end of the work day it started on.
+
+export interface TimerLimits {
+    maxDurationMs: number; // 0 disables
+    workEndTime: string; // "HH:mm" in local time, '' disables
+}
+
+export interface TimerLimit {
+    at: number; // Epoch ms when the limit was reached
+    reason: 'max-duration' | 'work-end';
+}
+
+// "17:30" -> minutes after midnight, null if not a valid time
+export function parseWorkEndTime(value: string): number | null {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+// The first work end after the start, so a timer started after hours runs until the next day's
+export function getWorkEndAfter(start: number, workEndTime: string): number | null {
+    const minutes = parseWorkEndTime(workEndTime);
+    if (minutes === null) return null;
+    const workEnd = moment(start).startOf('day').add(minutes, 'minutes');
+    if (!workEnd.isAfter(moment(start))) workEnd.add(1, 'day');
+    return workEnd.valueOf();
+}
+
+// The earliest limit the timer started at `start` has passed, or null if none
+export function getPassedTimerLimit(start: number, limits: TimerLimits, now: number = Date.now()): TimerLimit | null {
+    const candidates: TimerLimit[] = [];
+    if (limits.maxDurationMs > 0) {
+        candidates.push({ at: start + limits.maxDurationMs, reason: 'max-duration' });
+    }
+    const workEnd = limits.workEndTime ? getWorkEndAfter(start, limits.workEndTime) : null;
+    if (workEnd !== null) {
+        candidates.push({ at: workEnd, reason: 'work-end' });
+    }
+    const passed = candidates.filter(limit => limit.at <= now).sort((a, b) => a.at - b.at);
+    return passed.length > 0 ? passed[0] : null;
+}
@@ -0,0 +1,111 @@
+import { OrganizationCache } from './orgCache';
+import { TimerPreset } from './settings';
+
+// Links that control the timer from outside Obsidian (Stream Deck, Alfred, Shortcuts, a note):
+//   obsidian://solidtime?do=start&project=Client%20X&task=Design&tags=meeting,remote&description=Kickoff
+// Obsidian passes the handler name itself as the `action` parameter, so the timer action is `do`.
+// Projects, tasks and tags are given by name (case-insensitive) or ID and resolved against the cache.
+
+export const TIMER_LINK_HANDLER = 'solidtime';
+
+export const TIMER_LINK_ACTIONS = ['start', 'stop', 'switch', 'continue', 'preset'] as const;
+export type TimerLinkAction = typeof TIMER_LINK_ACTIONS[number];
+
+// What a start/switch link asks for, with every name resolved to an ID
+export interface TimerLinkTarget {
+    description: string | null;
+    projectId: string | null;
+    taskId: string | null;
+    tagIds: string[];
+    billable: boolean;
+    start: string | null; // Raw start input ("-10m", "09:45"), checked by the plugin
+    organizationId: string;
+}
+
+export type TimerLinkResult<T> = { value: T; error: null } | { value: null; error: string };
+
+const ok = <T>(value: T): TimerLinkResult<T> => ({ value: value, error: null });
+const fail = <T>(error: string): TimerLinkResult<T> => ({ value: null, error: error });
+
+// A parameter's trimmed value, null if missing or empty
+function getParam(params: Record<string, string>, name: string): string | null {
+    const value = params[name];
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+export function getTimerLinkAction(params: Record<string, string>): TimerLinkResult<TimerLinkAction> {
+    const action = getParam(params, 'do');
+    if (!action) return fail(`The link is missing the action, e.g. "do=start". Use one of: ${TIMER_LINK_ACTIONS.join(', ')}.`);
+    const match = TIMER_LINK_ACTIONS.find(candidate => candidate === action.toLowerCase());
+    if (!match) return fail(`Unknown link action "${action}". Use one of: ${TIMER_LINK_ACTIONS.join(', ')}.`);
+    return ok(match);
+}
+
+// "true"/"yes"/"1" or "false"/"no"/"0"; a bare "&billable" arrives as "true"
+function parseBillable(value: string): boolean | null {
+    const normalized = value.toLowerCase();
+    if (['true', 'yes', '1'].includes(normalized)) return true;
+    if (['false', 'no', '0'].includes(normalized)) return false;
+    return null;
+}
+
+export function resolveTimerLinkTarget(
+    params: Record<string, string>,
+    cache: OrganizationCache,
+    selectedOrgId: string,
+    defaultBillable: boolean
+): TimerLinkResult<TimerLinkTarget> {
+    const projectParam = getParam(params, 'project');
+    const project = projectParam ? cache.findProjectByName(projectParam, selectedOrgId) : null;
+    if (projectParam && !project) return fail(`Unknown project "${projectParam}".`);
+    const orgId = (project && cache.getOrgIdForProject(project.id)) || selectedOrgId;
+    const data = cache.get(orgId);
+
+    let taskId: string | null = null;
+    const taskParam = getParam(params, 'task');
+    if (taskParam) {
+        if (!project) return fail(`The task "${taskParam}" needs a project, add "project=..." to the link.`);
+        const wanted = taskParam.toLowerCase();
+        const task = data.tasks.find(candidate =>
+            candidate.project_id === project.id && (candidate.id === taskParam || candidate.name.toLowerCase() === wanted)
+        );
+        if (!task) return fail(`Unknown task "${taskParam}" in project "${project.name}".`);
+        taskId = task.id;
+    }
+
+    // Comma separated, within the timer's organization
+    const tagIds: string[] = [];
+    const unknownTags: string[] = [];
+    (getParam(params, 'tags') || '').split(',').map(name => name.trim()).filter(name => name !== '').forEach(name => {
+        const tag = data.tags.find(candidate => candidate.id === name || candidate.name.toLowerCase() === name.toLowerCase());
+        if (!tag) unknownTags.push(`"${name}"`);
+        else if (!tagIds.includes(tag.id)) tagIds.push(tag.id);
+    });
+    if (unknownTags.length > 0) return fail(`Unknown ${unknownTags.length === 1 ? 'tag' : 'tags'} ${unknownTags.join(', ')}.`);
+
+    let billable = project ? project.is_billable : defaultBillable;
+    const billableParam = getParam(params, 'billable');
+    if (billableParam) {
+        const parsed = parseBillable(billableParam);
+        if (parsed === null) return fail(`"billable=${billableParam}" should be true or false.`);
+        billable = parsed;
+    }
+
+    return ok({
+        description: getParam(params, 'description'),
+        projectId: project ? project.id : null,
+        taskId: taskId,
+        tagIds: tagIds,
+        billable: billable,
+        start: getParam(params, 'start'),
+        organizationId: orgId,
+    });
+}
+
+// The preset named (case-insensitive) or with the ID in "name"
+export function resolveTimerLinkPreset(params: Record<string, string>, presets: TimerPreset[]): TimerLinkResult<TimerPreset> {
+    const name = getParam(params, 'name');
+    if (!name) return fail('The link is missing the preset, e.g. "name=Deep work".');
+    const preset = presets.find(candidate => candidate.id === name || candidate.name.toLowerCase() === name.toLowerCase());
+    return preset ? ok(preset) : fail(`Unknown timer preset "${name}".`);
+}
@@ -0,0 +1,52 @@
+import { requestUrl } from 'obsidian';
+
+// The HTTP layer SolidTimeApi talks through. The default goes through Obsidian's requestUrl;
+// tests and tools can pass their own (e.g. FakeSolidTimeServer from ./testing/fakeSolidTime).
+
+export interface HttpRequest {
+    url: string; // Absolute URL
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: Record<string, string>; // Header names in lower case
+    text: string;
+    json: unknown; // Parsed body, null if empty or not JSON
+}
+
+export interface HttpTransport {
+    // Resolves for every HTTP status. Rejects only if no response was received at all.
+    request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+export class RequestUrlTransport implements HttpTransport {
+    async request(request: HttpRequest): Promise<HttpResponse> {
+        const response = await requestUrl({
+            url: request.url,
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            throw: false,
+        });
+
+        const headers: Record<string, string> = {};
+        Object.entries(response.headers || {}).forEach(([name, value]) => {
+            headers[name.toLowerCase()] = value;
+        });
+
+        let text = '';
+        let json: unknown = null;
+        try {
+            text = response.text || '';
+            // requestUrl's json getter throws on non-JSON bodies
+            if (text) json = response.json;
+        } catch (e) {
+            json = null;
+        }
+
+        return { status: response.status, headers: headers, text: text, json: json };
+    }
+}
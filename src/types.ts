@@ -5,14 +5,14 @@ export interface ApiTokenResource {
 	name: string;
 	revoked: boolean;
 	scopes: string[];
-	created_at: string;
+	created_at?: string;
 	expires_at: string | null;
 }
 
 export interface OrganizationResource {
 	id: string;
 	name: string;
-	is_personal: boolean;
+	is_personal?: boolean;
 	billable_rate: number | null;
 	employees_can_see_billable_rates: boolean;
 	currency: string;
@@ -32,10 +32,10 @@ export interface PersonalMembershipResource {
 export interface UserResource {
 	id: string; // ID of user
 	name: string; // Name of user
-	email: string; // Email of user
-	profile_photo_url: string; // Profile photo URL
-	timezone: string; // Timezone (f.e. Europe/Berlin or America/New_York)
-	week_start: Weekday; // Starting day of the week
+	email?: string; // Email of user
+	profile_photo_url?: string; // Profile photo URL
+	timezone?: string; // Timezone (f.e. Europe/Berlin or America/New_York)
+	week_start?: string; // Starting day of the week, one of Weekday on current servers
 }
 
 // Add the Weekday enum if it's not already there:
@@ -52,25 +52,33 @@ export type Weekday =
 export interface MemberResource {
 	id: string; // Membership ID (same as PersonalMembershipResource.id)
 	user_id: string;
-	name: string;
-	email: string;
-	role: string;
-	is_placeholder: boolean;
+	name?: string;
+	email?: string;
+	role?: string;
+	is_placeholder?: boolean;
 	billable_rate: number | null;
 }
 
 
+export interface ClientResource {
+	id: string;
+	name: string;
+	is_archived?: boolean;
+	created_at?: string;
+	updated_at?: string;
+}
+
 export interface ProjectResource {
 	id: string;
 	name: string;
 	color: string;
 	client_id: string | null;
-	is_archived: boolean;
+	is_archived?: boolean;
 	billable_rate: number | null;
 	is_billable: boolean;
-	estimated_time: number | null;
-	spent_time: number;
-	is_public: boolean;
+	estimated_time?: number | null;
+	spent_time?: number;
+	is_public?: boolean;
 }
 
 export interface TaskResource {
@@ -78,17 +86,39 @@ export interface TaskResource {
 	name: string;
 	is_done: boolean;
 	project_id: string;
-	estimated_time: number | null;
-	spent_time: number;
-	created_at: string;
-	updated_at: string;
+	estimated_time?: number | null;
+	spent_time?: number;
+	created_at?: string;
+	updated_at?: string;
 }
 
 export interface TagResource {
 	id: string;
 	name: string;
-	created_at: string;
-	updated_at: string;
+	created_at?: string;
+	updated_at?: string;
+}
+
+export interface ProjectStoreRequest {
+    name: string;
+    color: string; // Hex color, e.g. #ef5350
+    is_billable: boolean;
+    client_id?: string | null;
+    billable_rate?: number | null; // Cents
+    estimated_time?: number | null; // Seconds
+}
+
+export interface TaskStoreRequest {
+    name: string;
+    project_id: string;
+    estimated_time?: number | null; // Seconds
+}
+
+// PUT /tasks/{task}, the API requires the name even when only toggling is_done
+export interface TaskUpdateRequest {
+    name: string;
+    is_done?: boolean;
+    estimated_time?: number | null; // Seconds
 }
 
 export interface TagStoreRequest {
@@ -99,7 +129,7 @@ export interface TimeEntryResource {
 	id: string;
 	start: string; // ISO 8601 UTC
 	end: string | null; // ISO 8601 UTC
-	duration: number | null; // seconds
+	duration?: number | null; // seconds
 	description: string | null;
 	task_id: string | null;
 	project_id: string | null;
@@ -133,24 +163,42 @@ export interface TimeEntryStopPayload {
     tags?: string[] | null;
 }
 
+// For manually logged (already finished) entries
+export interface TimeEntryStorePayload extends TimeEntryStartPayload {
+    end: string; // ISO 8601 UTC
+}
+
+// PUT /time-entries/{timeEntry}, only the fields that should change need to be sent
+export interface TimeEntryUpdatePayload {
+    member_id: string;
+    start?: string; // ISO 8601 UTC
+    end?: string | null; // ISO 8601 UTC, null keeps the entry running
+    billable?: boolean;
+    project_id?: string | null;
+    task_id?: string | null;
+    description?: string | null;
+    tags?: string[] | null;
+}
+
 // For paginated responses
+// Only data and links.next are read, see SolidTimeApi.fetchAllPaginated
 export interface PaginatedResponse<T> {
     data: T[];
     links: {
-        first: string | null;
-        last: string | null;
-        prev: string | null;
+        first?: string | null;
+        last?: string | null;
+        prev?: string | null;
         next: string | null;
     };
-    meta: {
-        current_page: number;
-        from: number | null;
-        last_page: number;
-        links: { url: string | null; label: string; active: boolean }[];
-        path: string | null;
-        per_page: number;
-        to: number | null;
-        total: number;
+    meta?: {
+        current_page?: number;
+        from?: number | null;
+        last_page?: number;
+        links?: { url: string | null; label?: string; active?: boolean }[];
+        path?: string | null;
+        per_page?: number;
+        to?: number | null;
+        total?: number;
     };
 }
 
@@ -160,4 +208,19 @@ export interface TimeEntryListResponse {
     meta: {
         total: number;
     };
-}
\ No newline at end of file
+}
+
+// Filters for GET /organizations/{organization}/time-entries
+export interface TimeEntryQuery {
+    start?: string; // ISO 8601 UTC, entries starting after this moment
+    end?: string; // ISO 8601 UTC, entries starting before this moment
+    memberId?: string;
+    memberIds?: string[];
+    projectIds?: string[];
+    taskIds?: string[];
+    tagIds?: string[];
+    billable?: boolean;
+    active?: boolean; // true = only the running entry, false = only finished entries
+    limit?: number; // Page size, the API allows 1-500. Not a total cap: getAllTimeEntries still fetches every page
+    offset?: number;
+}
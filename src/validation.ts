@@ -0,0 +1,268 @@
+import { SolidTimeResponseError } from './errors';
+import {
+    ApiTokenResource,
+    ClientResource,
+    MemberResource,
+    OrganizationResource,
+    PaginatedResponse,
+    PersonalMembershipResource,
+    ProjectResource,
+    TagResource,
+    TaskResource,
+    TimeEntryListResponse,
+    TimeEntryResource,
+    UserResource,
+} from './types';
+
+// Runtime checks for API responses. src/types.ts is copied from api-docs.json by hand, and a
+// self-hosted server may run a SolidTime version whose responses differ. Checking at the API
+// boundary turns that into one error naming the endpoint and field, instead of a crash far away
+// (e.g. organization_id.slice on undefined). Fields we don't know about are allowed and kept.
+// Only fields the plugin actually reads are required, the rest is optional() so a server that
+// drops or renames one of them keeps working.
+
+// Returns the value typed as T, or throws SchemaMismatch. path is used in the error, e.g. "data[2].name".
+export type Schema<T> = (value: unknown, path: string) => T;
+
+class SchemaMismatch extends Error {
+    path: string;
+    expected: string;
+    received: unknown;
+
+    constructor(path: string, expected: string, received: unknown) {
+        super(`${path} should be ${expected}, got ${describeValue(received)}`);
+        this.path = path;
+        this.expected = expected;
+        this.received = received;
+    }
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'nothing (field missing)';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `"${value.length > 40 ? value.substring(0, 40) + '...' : value}"`;
+    if (typeof value === 'object') return 'an object';
+    return `${typeof value} ${String(value)}`;
+}
+
+// Validates a response body and turns a mismatch into a SolidTimeResponseError
+export function parseResponse<T>(schema: Schema<T>, body: unknown, status: number, endpoint: string | null): T {
+    try {
+        return schema(body, 'response');
+    } catch (error) {
+        if (!(error instanceof SchemaMismatch)) throw error;
+        const field = error.path.replace(/^response\.?/, '') || '(body)';
+        throw new SolidTimeResponseError(
+            `SolidTime API Error: unexpected response from ${endpoint}: ${field} should be ${error.expected}, got ${describeValue(error.received)}`,
+            status,
+            body,
+            endpoint,
+            field,
+            error.expected
+        );
+    }
+}
+
+// --- Primitives ---
+
+export const string: Schema<string> = (value, path) => {
+    if (typeof value !== 'string') throw new SchemaMismatch(path, 'a string', value);
+    return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+    if (typeof value !== 'number' || !isFinite(value)) throw new SchemaMismatch(path, 'a number', value);
+    return value;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaMismatch(path, 'true or false', value);
+    return value;
+};
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return (value, path) => {
+        if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+            throw new SchemaMismatch(path, `one of ${values.join(', ')}`, value);
+        }
+        return value as T;
+    };
+}
+
+// --- Combinators ---
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return (value, path) => value === null ? null : schema(value, path);
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (value, path) => value === undefined ? undefined : schema(value, path);
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) throw new SchemaMismatch(path, 'an array', value);
+        return value.map((item, index) => schema(item, `${path}[${index}]`));
+    };
+}
+
+// Every declared field is checked (use optional() for optional ones), extra fields pass through.
+// The mapped type makes the compiler complain when a schema and its interface drift apart.
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return (value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new SchemaMismatch(path, 'an object', value);
+        }
+        const record = value as Record<string, unknown>;
+        (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+            shape[key](record[key], `${path}.${key}`);
+        });
+        return value as unknown as T;
+    };
+}
+
+// --- Resources ---
+
+export const apiTokenSchema = object<ApiTokenResource>({
+    id: string,
+    name: string,
+    revoked: boolean,
+    scopes: array(string),
+    created_at: optional(string),
+    expires_at: nullable(string),
+});
+
+export const organizationSchema = object<OrganizationResource>({
+    id: string,
+    name: string,
+    is_personal: optional(boolean),
+    billable_rate: nullable(number),
+    employees_can_see_billable_rates: boolean,
+    currency: string,
+});
+
+export const membershipSchema = object<PersonalMembershipResource>({
+    id: string,
+    organization: object<PersonalMembershipResource['organization']>({
+        id: string,
+        name: string,
+        currency: string,
+    }),
+    role: string,
+});
+
+export const userSchema = object<UserResource>({
+    id: string,
+    name: string,
+    email: optional(string),
+    profile_photo_url: optional(string),
+    timezone: optional(string),
+    week_start: optional(string),
+});
+
+export const memberSchema = object<MemberResource>({
+    id: string,
+    user_id: string,
+    name: optional(string),
+    email: optional(string),
+    role: optional(string),
+    is_placeholder: optional(boolean),
+    billable_rate: nullable(number),
+});
+
+export const clientSchema = object<ClientResource>({
+    id: string,
+    name: string,
+    is_archived: optional(boolean),
+    created_at: optional(string),
+    updated_at: optional(string),
+});
+
+export const projectSchema = object<ProjectResource>({
+    id: string,
+    name: string,
+    color: string,
+    client_id: nullable(string),
+    is_archived: optional(boolean),
+    billable_rate: nullable(number),
+    is_billable: boolean,
+    estimated_time: optional(nullable(number)),
+    spent_time: optional(number),
+    is_public: optional(boolean),
+});
+
+export const taskSchema = object<TaskResource>({
+    id: string,
+    name: string,
+    is_done: boolean,
+    project_id: string,
+    estimated_time: optional(nullable(number)),
+    spent_time: optional(number),
+    created_at: optional(string),
+    updated_at: optional(string),
+});
+
+export const tagSchema = object<TagResource>({
+    id: string,
+    name: string,
+    created_at: optional(string),
+    updated_at: optional(string),
+});
+
+export const timeEntrySchema = object<TimeEntryResource>({
+    id: string,
+    start: string,
+    end: nullable(string),
+    duration: optional(nullable(number)),
+    description: nullable(string),
+    task_id: nullable(string),
+    project_id: nullable(string),
+    organization_id: string,
+    user_id: string,
+    tags: array(string),
+    billable: boolean,
+});
+
+// --- Envelopes ---
+
+// { data: ... } as returned by single-resource endpoints and unpaginated lists
+export function dataEnvelope<T>(schema: Schema<T>): Schema<{ data: T }> {
+    return object<{ data: T }>({ data: schema });
+}
+
+// Laravel style page with links/meta, followed by SolidTimeApi.fetchAllPaginated. Paging only
+// needs links.next, the rest is checked when present.
+export function paginated<T>(schema: Schema<T>): Schema<PaginatedResponse<T>> {
+    type Meta = NonNullable<PaginatedResponse<T>['meta']>;
+    return object<PaginatedResponse<T>>({
+        data: array(schema),
+        links: object<PaginatedResponse<T>['links']>({
+            first: optional(nullable(string)),
+            last: optional(nullable(string)),
+            prev: optional(nullable(string)),
+            next: nullable(string),
+        }),
+        meta: optional(object<Meta>({
+            current_page: optional(number),
+            from: optional(nullable(number)),
+            last_page: optional(number),
+            links: optional(array(object<NonNullable<Meta['links']>[number]>({
+                url: nullable(string),
+                label: optional(string),
+                active: optional(boolean),
+            }))),
+            path: optional(nullable(string)),
+            per_page: optional(number),
+            to: optional(nullable(number)),
+            total: optional(number),
+        })),
+    });
+}
+
+export const timeEntryListSchema = object<TimeEntryListResponse>({
+    data: array(timeEntrySchema),
+    meta: object<TimeEntryListResponse['meta']>({
+        total: number,
+    }),
+});
@@ -1,13 +1,13 @@
 import { ItemView, WorkspaceLeaf, setIcon, Notice, moment } from 'obsidian';
 import SolidTimePlugin from '../main';
 import { ProjectResource, TagResource } from './types';
-import { ProjectSuggestModal, TagSelectionModal } from './modals';
+import { ProjectSuggestModal, TagSelectionModal, PendingActionsModal, StartTimeModal, SplitTimerModal } from './modals';
+import { parseStartInput } from './time';
 
 export const SOLIDTIME_VIEW_TYPE = 'solidtime-timer-view';
 
 export class SolidTimeView extends ItemView {
     plugin: SolidTimePlugin;
-    private durationIntervalId: number | null = null;
     private isEditing: boolean = false;
 
     // Elements
@@ -18,11 +18,14 @@ export class SolidTimeView extends ItemView {
     private tagIconEl: HTMLElement | null = null;
     private billableIconEl: HTMLElement | null = null;
     private durationEl: HTMLElement | null = null;
+    private earningsEl: HTMLElement | null = null;
+    private focusTextEl: HTMLElement | null = null;
     private playStopButtonEl: HTMLElement | null = null; // Keep ref for button state
 
     // states for idle configuration
     private pendingDescription: string | null = null;
     private pendingProject: ProjectResource | null = null;
+    private pendingStart: string | null = null; // Backdating input like "-10m", null = now
 
 
     constructor(leaf: WorkspaceLeaf, plugin: SolidTimePlugin) {
@@ -61,7 +64,6 @@ export class SolidTimeView extends ItemView {
 
     async onClose() {
         // console.log("SolidTime View: Closed");
-        this.clearDurationInterval();
         // Clean up any other resources or listeners if needed
         this.isEditing = false;
     }
@@ -78,6 +80,18 @@ export class SolidTimeView extends ItemView {
         const timerRunning = !!this.plugin.activeTimeEntry;
         const entry = this.plugin.activeTimeEntry;
 
+        // --- Organization (only when there is more than one) ---
+        if (this.plugin.hasMultipleOrganizations()) {
+            // The running timer may belong to another organization than the selected one
+            const orgId = entry?.organization_id || this.plugin.settings.selectedOrganizationId;
+            const orgEl = containerEl.createEl('div', {
+                text: this.plugin.getOrganizationName(orgId) || '(Unknown organization)',
+                cls: 'solidtime-view-org'
+            });
+            orgEl.setAttribute('title', 'Click to switch organization');
+            orgEl.onclick = () => { this.plugin.promptSwitchOrganization(); };
+        }
+
         // --- Description (Editable in both states (active / idle)) ---
         const currentDesc = timerRunning ? entry?.description : this.pendingDescription;
         this.descriptionEl = containerEl.createEl('div', {
@@ -101,7 +115,7 @@ export class SolidTimeView extends ItemView {
         this.projectNameEl = this.projectEl.createEl('span', { cls: 'solidtime-view-project-name' });
 
         // Determine which project to display (active or pending)
-        const displayProject = timerRunning ? (entry?.project_id ? this.plugin.projects.find(p => p.id === entry.project_id) : null) : this.pendingProject;
+        const displayProject = timerRunning ? this.plugin.orgCache.findProject(entry?.project_id) : this.pendingProject;
         const displayProjectId = timerRunning ? entry?.project_id : this.pendingProject?.id;
 
         // Apply color/text based on displayProject (using CSS classes)
@@ -114,7 +128,7 @@ export class SolidTimeView extends ItemView {
         }
 
         // Set project name text based on whether the project object was found OR if just the ID exists
-        if (displayProject) { this.projectNameEl.setText(displayProject.name); }
+        if (displayProject) { this.projectNameEl.setText(this.plugin.getProjectLabel(displayProject)); }
         else if (displayProjectId) { this.projectNameEl.setText(`(ID: ...${displayProjectId.slice(-4)})`); }
         else { this.projectNameEl.setText('(Click to select project)'); }
 
@@ -142,44 +156,150 @@ export class SolidTimeView extends ItemView {
         this.billableIconEl.toggleClass('is-interactive', timerRunning); // Add class only if timer running
         this.billableIconEl.onclick = () => { if (!timerRunning) return; this.plugin.updateActiveTimerDetails({ billable: !isBillable }); };
 
+        // Split Icon (only when running)
+        if (timerRunning && entry) {
+            const splitIconEl = iconsContainer.createEl('span', { cls: 'solidtime-view-icon is-interactive' });
+            setIcon(splitIconEl, 'scissors');
+            splitIconEl.setAttribute('title', 'Split the timer at a point in time');
+            splitIconEl.onclick = () => { new SplitTimerModal(this.app, this.plugin, entry).open(); };
+        }
+
+        // Preset Icon (switches the running timer, only when there are presets)
+        if (timerRunning && this.plugin.settings.presets.length > 0) {
+            const presetIconEl = iconsContainer.createEl('span', { cls: 'solidtime-view-icon is-interactive' });
+            setIcon(presetIconEl, 'bookmark');
+            presetIconEl.setAttribute('title', 'Switch to a timer preset');
+            presetIconEl.onclick = () => { this.plugin.pickPreset(); };
+        }
+
+        // --- Offline changes waiting to sync ---
+        if (!this.plugin.offlineQueue.isEmpty) {
+            const pendingEl = containerEl.createEl('div', { text: `⏳ ${this.plugin.describeQueue()}`, cls: 'solidtime-view-pending' });
+            pendingEl.setAttribute('title', 'Click to review pending offline changes');
+            pendingEl.onclick = () => { new PendingActionsModal(this.app, this.plugin).open(); };
+        }
+
         // --- Row for Button / Duration ---
         const controlsRow = containerEl.createEl('div', { cls: 'solidtime-view-controls-row' });
         this.playStopButtonEl = controlsRow.createEl('div', { cls: 'solidtime-view-button-container' });
         const button = this.playStopButtonEl.createEl('button', { cls: 'solidtime-view-button' });
-        this.durationEl = controlsRow.createEl('div', { text: timerRunning ? '00:00:00' : '--:--:--', cls: 'solidtime-view-duration' });
+        const durationContainer = controlsRow.createEl('div', { cls: 'solidtime-view-duration-container' });
+        this.durationEl = durationContainer.createEl('div', { text: timerRunning ? '00:00:00' : '--:--:--', cls: 'solidtime-view-duration' });
+        this.earningsEl = durationContainer.createEl('div', { cls: 'solidtime-view-earnings' });
+        const startEl = durationContainer.createEl('div', { cls: 'solidtime-view-start is-interactive' });
 
         if (timerRunning && entry?.start) {
             // --- Running State ---
             setIcon(button, 'square'); button.addClass('stop'); button.setAttribute('aria-label', 'Stop timer');
             button.onclick = () => { this.plugin.stopCurrentTimer(); };
-            this.updateDuration(); this.startDurationInterval();
+            startEl.setText(`Started ${moment.utc(entry.start).local().format('HH:mm')}`);
+            startEl.setAttribute('title', 'Click to adjust the start time');
+            startEl.onclick = () => {
+                if (!this.plugin.activeTimeEntry) return;
+                new StartTimeModal(this.app, this.plugin.activeTimeEntry, input => this.plugin.adjustActiveTimerStart(input)).open();
+            };
+            this.updateDuration(); // Then every second by the plugin's clock
         } else {
             // --- Idle State ---
             setIcon(button, 'play'); button.addClass('start'); button.setAttribute('aria-label', 'Start timer with current details');
-            button.onclick = () => {
+            startEl.setText(this.pendingStart ? `Start: ${this.pendingStart}` : 'Start: now');
+            startEl.setAttribute('title', 'Click to backdate the start, e.g. "-10m" or "09:45"');
+            startEl.onclick = () => {
+                new StartTimeModal(this.app, null, input => {
+                    if (input && !parseStartInput(input)) {
+                        new Notice(`"${input}" is not a start time. Use e.g. "-10m" or "09:45".`);
+                        return;
+                    }
+                    this.pendingStart = input || null;
+                    this.plugin.updateSolidTimeView();
+                }, this.pendingStart || '').open();
+            };
+            button.onclick = async () => {
                 if (!this.pendingDescription) {
                     new Notice("Please enter a description before starting the timer.");
                     // Optionally focus the description input here if desired
                     if (this.descriptionEl) this.editDescription(); // Try to trigger edit mode
                     return; // Stop execution
                 }
+                // A relative start like "-10m" is resolved now, not when it was entered
+                let start: string | undefined;
+                if (this.pendingStart) {
+                    const resolved = await this.plugin.resolveStartInput(this.pendingStart, this.plugin.getTimerOrgId(this.pendingProject?.id || null));
+                    if (!resolved) return;
+                    start = resolved;
+                }
                 // Start timer using pending details from the view's state
                 this.plugin.startTimer({
                     description: this.pendingDescription, // Now guaranteed to be non-null
                     projectId: this.pendingProject?.id || null,
                     taskId: null,
                     tagIds: [],
-                    billable: this.plugin.settings.defaultBillable
+                    billable: this.plugin.settings.defaultBillable,
+                    start: start,
                 });
                 // Clear pending state after starting
                 this.pendingDescription = null;
                 this.pendingProject = null;
+                this.pendingStart = null;
                 // View will refresh automatically via startTimer -> updateStatus -> updateView
             };
-            this.clearDurationInterval();
+            this.renderContinueRow(containerEl);
+        }
+
+        // --- Focus session ---
+        const focusRow = containerEl.createEl('div', { cls: 'solidtime-view-focus' });
+        if (this.plugin.focusSession) {
+            this.focusTextEl = focusRow.createEl('span', { cls: 'solidtime-view-focus-text' });
+            this.updateFocus();
+            const skipEl = focusRow.createEl('span', { cls: 'solidtime-view-icon is-interactive' });
+            setIcon(skipEl, 'skip-forward');
+            skipEl.setAttribute('title', this.plugin.focusSession.phase === 'work' ? 'Start the break now' : 'End the break now');
+            skipEl.onclick = () => { this.plugin.skipFocusPhase(); };
+            const stopEl = focusRow.createEl('span', { cls: 'solidtime-view-icon is-interactive' });
+            setIcon(stopEl, 'x');
+            stopEl.setAttribute('title', 'Stop focus session');
+            stopEl.onclick = () => { this.plugin.stopFocusSession(); };
+        } else {
+            this.focusTextEl = null;
+            const sessions = this.plugin.getFocusSessionsToday();
+            const startEl = focusRow.createEl('span', {
+                text: `🍅 Start focus session${sessions > 0 ? ` (${sessions} today)` : ''}`,
+                cls: 'solidtime-view-focus-start',
+            });
+            startEl.onclick = () => { this.plugin.startFocusSession(); };
         }
     }
 
+    // Idle state shortcuts: continue the last entry without retyping it, or restart an older one
+    renderContinueRow(containerEl: HTMLElement) {
+        const row = containerEl.createEl('div', { cls: 'solidtime-view-continue' });
+        const last = this.plugin.lastTimeEntry;
+        if (last) {
+            const project = this.plugin.orgCache.findProject(last.project_id);
+            const label = [last.description, project?.name].filter(part => !!part).join(' · ') || '(No description)';
+            const continueEl = row.createEl('span', { cls: 'solidtime-view-continue-last' });
+            setIcon(continueEl.createEl('span', { cls: 'solidtime-view-icon' }), 'rotate-ccw');
+            continueEl.createEl('span', { text: `Continue: ${label}` });
+            continueEl.setAttribute('title', 'Start a new timer with the same description, project, task, tags and billable state');
+            continueEl.onclick = () => { this.plugin.continueTimeEntry(last); };
+        }
+        const recentEl = row.createEl('span', { text: 'Recent...', cls: 'solidtime-view-continue-recent' });
+        recentEl.setAttribute('title', 'Restart a recent time entry');
+        recentEl.onclick = () => { this.plugin.pickRecentTimeEntry(entry => this.plugin.continueTimeEntry(entry)); };
+        if (this.plugin.settings.presets.length > 0) {
+            const presetsEl = row.createEl('span', { text: 'Presets...', cls: 'solidtime-view-continue-recent' });
+            presetsEl.setAttribute('title', 'Start a timer preset');
+            presetsEl.onclick = () => { this.plugin.pickPreset(); };
+        }
+    }
+
+    // Countdown only, called every second by the plugin's clock
+    updateFocus() {
+        if (!this.focusTextEl) return;
+        const note = this.plugin.getFocusNote();
+        this.focusTextEl.setText(note ? `${note} · ${this.plugin.describeFocus()}` : '');
+    }
+
     editDescription() {
 
         if (this.isEditing) return; // Prevent starting another edit if already editing
@@ -251,7 +371,9 @@ export class SolidTimeView extends ItemView {
 
     selectProject() {
         const timerRunning = !!this.plugin.activeTimeEntry;
-        new ProjectSuggestModal(this.app, this.plugin.projects, (selectedProject) => {
+        // A running timer can only move to projects of its own organization
+        const orgId = this.plugin.activeTimeEntry?.organization_id;
+        new ProjectSuggestModal(this.app, this.plugin.getPickerProjects(orgId), (selectedProject) => {
             const currentProjectId = (timerRunning ? this.plugin.activeTimeEntry?.project_id : this.pendingProject?.id) || null;
             const newProjectId = selectedProject?.id || null;
 
@@ -262,7 +384,7 @@ export class SolidTimeView extends ItemView {
                 } else {
                     // Update pending state in the view
                     this.pendingProject = selectedProject;
-                    this.projectNameEl?.setText(selectedProject?.name || '(Click to select project)');
+                    this.projectNameEl?.setText(selectedProject ? this.plugin.getProjectLabel(selectedProject) : '(Click to select project)');
                     if (selectedProject?.color) {
                         this.projectColorEl?.style.setProperty('--project-color', selectedProject.color);
                     } else {
@@ -271,7 +393,19 @@ export class SolidTimeView extends ItemView {
                     }
                 }
             }
-        }).open();
+        }, timerRunning ? {
+            ...this.plugin.getProjectSuggestOptions(orgId),
+            // Shift+Enter stops the running timer and starts a new one on the project
+            onSwitch: project => {
+                this.plugin.switchTimer({
+                    description: null,
+                    projectId: project?.id || null,
+                    taskId: null,
+                    tagIds: [],
+                    billable: project ? project.is_billable : this.plugin.settings.defaultBillable,
+                });
+            },
+        } : this.plugin.getProjectSuggestOptions(orgId)).open();
     }
 
     // --- Select Tags Logic ---
@@ -279,6 +413,7 @@ export class SolidTimeView extends ItemView {
         if (!this.plugin.activeTimeEntry) return;
 
         const currentTagIds = this.plugin.activeTimeEntry.tags || [];
+        const orgId = this.plugin.activeTimeEntry.organization_id;
 
         new TagSelectionModal(this.app, this.plugin, currentTagIds, (newSelectedIds) => {
             // Check if selection actually changed (simple length check or deep compare)
@@ -291,36 +426,20 @@ export class SolidTimeView extends ItemView {
             } else {
                 // console.log("Tag selection unchanged.");
             }
-        }).open();
-    }
-
-    clearDurationInterval() {
-        if (this.durationIntervalId !== null) {
-            window.clearInterval(this.durationIntervalId);
-            this.durationIntervalId = null;
-        }
-    }
-
-    startDurationInterval() {
-        this.clearDurationInterval(); // Clear any existing interval first
-        if (this.plugin.activeTimeEntry) {
-            this.durationIntervalId = window.setInterval(() => {
-                this.updateDuration();
-            }, 1000); // Update every second
-        }
+        }, orgId).open();
     }
 
+    // Called every second by the plugin's clock
     updateDuration() {
         if (!this.plugin.activeTimeEntry || !this.plugin.activeTimeEntry.start || !this.durationEl) {
-            this.clearDurationInterval(); // Stop if timer stopped or element is gone
             if (this.durationEl) this.durationEl.setText('--:--:--');
+            if (this.earningsEl) this.earningsEl.empty();
             return;
         }
 
         const startDateTime = moment.utc(this.plugin.activeTimeEntry.start);
         if (!startDateTime.isValid) {
             this.durationEl.setText('Invalid start');
-            this.clearDurationInterval();
             return;
         }
         const nowDateTime = moment.utc();
@@ -328,6 +447,10 @@ export class SolidTimeView extends ItemView {
 
         // Update only the duration text content for efficiency
         this.durationEl.setText(this.plugin.formatDuration(duration));
+        if (this.earningsEl) {
+            const earnings = this.plugin.formatEarnings(this.plugin.activeTimeEntry, duration);
+            this.earningsEl.setText(earnings || '');
+        }
     }
 
     // Method called by the plugin to trigger a full refresh
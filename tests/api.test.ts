@@ -0,0 +1,131 @@
+import { SolidTimeApi, RetryOptions } from '../src/api';
+import { SolidTimeAuthError, SolidTimeNetworkError, SolidTimeResponseError, SolidTimeValidationError } from '../src/errors';
+import { FakeSolidTimeServer } from '../src/testing/fakeSolidTime';
+
+const NO_RETRY: RetryOptions = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 };
+
+function setup() {
+    const server = new FakeSolidTimeServer(); // Pages of 2, so every list below spans several pages
+    const user = server.seedUser('Ada');
+    const api = new SolidTimeApi(user.token, server.baseUrl, NO_RETRY, server);
+    return { server, api, ...user };
+}
+
+describe('SolidTimeApi pagination', () => {
+    test('follows links.next through every page of a list', async () => {
+        const { server, api, orgId } = setup();
+        ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon'].forEach(name => server.seedProject(orgId, name));
+
+        const projects = await api.getProjects(orgId);
+
+        expect(projects.map(project => project.name)).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon']);
+        expect(server.requests.filter(request => request.path.endsWith('/projects'))).toHaveLength(3);
+    });
+
+    test('pages members of a large organization', async () => {
+        const { server, api, orgId } = setup();
+        for (let i = 0; i < 4; i++) {
+            const other = server.seedUser(`Member ${i}`, orgId);
+            expect(other.orgId).toBe(orgId);
+        }
+
+        const members = await api.getMembers(orgId);
+
+        expect(members).toHaveLength(5);
+        expect(new Set(members.map(member => member.id)).size).toBe(5);
+    });
+
+    test('pages time entries by limit/offset until the reported total', async () => {
+        const { server, api, orgId, userId } = setup();
+        for (let hour = 1; hour <= 5; hour++) {
+            server.seedTimeEntry(orgId, userId, { start: `2024-01-01T0${hour}:00:00Z`, end: `2024-01-01T0${hour}:30:00Z` });
+        }
+
+        const entries = await api.getAllTimeEntries(orgId, { limit: 2 });
+
+        expect(entries.map(entry => entry.start)).toEqual([
+            '2024-01-01T05:00:00Z',
+            '2024-01-01T04:00:00Z',
+            '2024-01-01T03:00:00Z',
+            '2024-01-01T02:00:00Z',
+            '2024-01-01T01:00:00Z',
+        ]);
+        const offsets = server.requests.filter(request => request.path.endsWith('/time-entries')).map(request => request.query.get('offset'));
+        expect(offsets).toEqual(['0', '2', '4']);
+    });
+
+    test('caps the time entries at maxItems, limit only sets the page size', async () => {
+        const { server, api, orgId, userId } = setup();
+        for (let hour = 1; hour <= 5; hour++) {
+            server.seedTimeEntry(orgId, userId, { start: `2024-01-01T0${hour}:00:00Z`, end: `2024-01-01T0${hour}:30:00Z` });
+        }
+
+        const entries = await api.getAllTimeEntries(orgId, { limit: 2 }, 3);
+
+        expect(entries.map(entry => entry.start)).toEqual(['2024-01-01T05:00:00Z', '2024-01-01T04:00:00Z', '2024-01-01T03:00:00Z']);
+        expect(server.requests.filter(request => request.path.endsWith('/time-entries'))).toHaveLength(2);
+    });
+});
+
+describe('SolidTimeApi errors', () => {
+    test('turns a 422 into a SolidTimeValidationError with the field errors', async () => {
+        const { api, orgId } = setup();
+
+        const error = await api.startTimeEntry(orgId, {
+            member_id: 'member-unknown',
+            start: '2024-01-01T09:00:00Z',
+            billable: false,
+            project_id: null,
+            task_id: null,
+            description: null,
+            tags: null,
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(SolidTimeValidationError);
+        expect(error.status).toBe(422);
+        expect(error.fieldErrors.member_id).toEqual(['The selected member id is invalid.']);
+    });
+
+    test('reports a rejected token as SolidTimeAuthError', async () => {
+        const { server } = setup();
+        const api = new SolidTimeApi('not-a-token', server.baseUrl, NO_RETRY, server);
+
+        await expect(api.getMe()).rejects.toBeInstanceOf(SolidTimeAuthError);
+    });
+
+    test('reports a request without response as SolidTimeNetworkError', async () => {
+        const { server, api } = setup();
+        server.failNext('network');
+
+        await expect(api.getMe()).rejects.toBeInstanceOf(SolidTimeNetworkError);
+    });
+});
+
+describe('SolidTimeApi response checks', () => {
+    test('tolerates missing or unexpected fields the plugin never reads', async () => {
+        const { server, api, orgId } = setup();
+        const user = server.users[0] as Partial<typeof server.users[0]>;
+        delete user.timezone;
+        delete user.profile_photo_url;
+        user.week_start = 'Montag';
+        server.seedProject(orgId, 'Alpha');
+        server.projects.forEach(project => {
+            delete (project as Partial<typeof project>).spent_time;
+            delete (project as Partial<typeof project>).is_public;
+        });
+
+        await expect(api.getMe()).resolves.toMatchObject({ name: 'Ada' });
+        await expect(api.getProjects(orgId)).resolves.toHaveLength(1);
+    });
+
+    test('still rejects a response without a field the plugin relies on', async () => {
+        const { server, api, orgId } = setup();
+        server.seedProject(orgId, 'Alpha');
+        delete (server.projects[0] as Partial<typeof server.projects[0]>).is_billable;
+
+        const error = await api.getProjects(orgId).catch(e => e);
+
+        expect(error).toBeInstanceOf(SolidTimeResponseError);
+        expect(error.field).toBe('data[0].is_billable');
+    });
+});
@@ -0,0 +1,22 @@
+import { createTestPlugin } from './pluginHarness';
+
+describe('loadSolidTimeData', () => {
+    test('pages through the members only until the own member is cached', async () => {
+        const { server, plugin, orgId, memberId } = await createTestPlugin();
+        plugin.currentUser = server.users[0];
+        await plugin.loadMemberships();
+        const memberListRequests = () => server.requests.filter(request => request.path.endsWith('/members')).length;
+
+        await plugin.loadSolidTimeData(orgId);
+        const afterFirstLoad = memberListRequests();
+        await plugin.loadSolidTimeData(orgId);
+
+        expect(plugin.orgCache.get(orgId).member?.id).toBe(memberId);
+        expect(afterFirstLoad).toBeGreaterThan(0);
+        expect(memberListRequests()).toBe(afterFirstLoad);
+
+        await plugin.loadSolidTimeData(orgId, true);
+
+        expect(memberListRequests()).toBeGreaterThan(afterFirstLoad);
+    });
+});
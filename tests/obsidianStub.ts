@@ -0,0 +1,112 @@
+import * as moment from 'moment';
+
+// Stand-in for the obsidian module, which only ships type definitions. Jest maps `obsidian` here
+// (see jest.config.js). Just enough for the plugin's modules to load and for timer flows to run
+// headless: UI classes are empty shells, Notices and workspace events are recorded for assertions.
+
+export { moment };
+
+export const notices: string[] = [];
+
+export class Notice {
+    message: string;
+
+    constructor(message: string | DocumentFragment, timeout?: number) {
+        this.message = typeof message === 'string' ? message : '[fragment]';
+        notices.push(this.message);
+    }
+
+    setMessage(message: string) {
+        this.message = message;
+        return this;
+    }
+
+    hide() {}
+}
+
+export class Workspace {
+    triggered: { name: string; data: unknown[] }[] = [];
+
+    trigger(name: string, ...data: unknown[]) {
+        this.triggered.push({ name, data });
+    }
+
+    on() {
+        return {};
+    }
+
+    getLeavesOfType() {
+        return [];
+    }
+}
+
+export class App {
+    workspace = new Workspace();
+}
+
+export class Component {
+    registerInterval(id: number) { return id; }
+    registerDomEvent() {}
+    registerEvent() {}
+}
+
+export class Plugin extends Component {
+    app: App;
+    manifest: unknown;
+    data: unknown = null; // What saveData stored last
+    commands: Record<string, unknown> = {};
+
+    constructor(app: App, manifest: unknown = {}) {
+        super();
+        this.app = app;
+        this.manifest = manifest;
+    }
+
+    async loadData() {
+        return this.data === null ? null : JSON.parse(JSON.stringify(this.data));
+    }
+
+    async saveData(data: unknown) {
+        this.data = JSON.parse(JSON.stringify(data));
+    }
+
+    addCommand(command: { id: string }) {
+        this.commands[command.id] = command;
+        return command;
+    }
+
+    removeCommand(id: string) {
+        delete this.commands[id];
+    }
+
+    addStatusBarItem() {}
+    addSettingTab() {}
+    addRibbonIcon() {}
+    registerView() {}
+    registerObsidianProtocolHandler() {}
+}
+
+// Base classes the plugin's UI extends, never instantiated by the tests
+export class Modal {
+    constructor(...args: unknown[]) {}
+}
+export class SuggestModal extends Modal {}
+export class FuzzySuggestModal extends SuggestModal {}
+export class ItemView {
+    constructor(...args: unknown[]) {}
+}
+export class PluginSettingTab {
+    constructor(...args: unknown[]) {}
+}
+export class Setting {
+    constructor(...args: unknown[]) {}
+}
+export class ToggleComponent {
+    constructor(...args: unknown[]) {}
+}
+
+export function setIcon() {}
+
+export async function requestUrl(): Promise<never> {
+    throw new Error('requestUrl is not available in tests, pass a transport to SolidTimeApi');
+}
@@ -0,0 +1,20 @@
+import type { App as ObsidianApp, PluginManifest } from 'obsidian';
+import SolidTimePlugin from '../main';
+import { SolidTimeApi } from '../src/api';
+import { FakeSolidTimeServer } from '../src/testing/fakeSolidTime';
+import { App, notices } from './obsidianStub';
+
+// A configured plugin talking to a fresh FakeSolidTimeServer, without running onload
+export async function createTestPlugin() {
+    const server = new FakeSolidTimeServer();
+    const { token, userId, orgId, memberId } = server.seedUser('Ada');
+    const app = new App();
+    const plugin = new SolidTimePlugin(app as unknown as ObsidianApp, {} as PluginManifest);
+    await plugin.loadSettings();
+    plugin.settings.apiKey = token;
+    plugin.settings.apiBaseUrl = server.baseUrl;
+    plugin.settings.selectedOrganizationId = orgId;
+    plugin.api = new SolidTimeApi(token, server.baseUrl, { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 }, server);
+    notices.length = 0;
+    return { server, plugin, app, userId, orgId, memberId };
+}
@@ -0,0 +1,37 @@
+import type { Command } from 'obsidian';
+import type { TimerPreset } from '../src/settings';
+import { createTestPlugin } from './pluginHarness';
+
+const preset = (id: string, name: string): TimerPreset => ({
+    id, name, description: name, projectId: null, taskId: null, tagIds: [], billable: false, organizationId: '',
+});
+
+async function setup() {
+    const harness = await createTestPlugin();
+    const commands = (harness.plugin as unknown as { commands: Record<string, Command> }).commands;
+    return { ...harness, commands };
+}
+
+describe('preset commands', () => {
+    test('follow the presets where removeCommand exists', async () => {
+        const { plugin, commands } = await setup();
+
+        await plugin.savePresets([preset('a', 'Deep work'), preset('b', 'Email')]);
+        await plugin.savePresets([preset('a', 'Focus')]);
+
+        expect(Object.keys(commands)).toEqual(['start-preset-a']);
+        expect(commands['start-preset-a'].name).toBe('Start preset: Focus');
+    });
+
+    test('hide deleted presets on Obsidian versions without removeCommand', async () => {
+        const { plugin, commands } = await setup();
+        Object.defineProperty(plugin, 'removeCommand', { value: undefined });
+
+        await plugin.savePresets([preset('a', 'Deep work'), preset('b', 'Email')]);
+        await plugin.savePresets([preset('a', 'Focus')]);
+
+        expect(commands['start-preset-a'].name).toBe('Start preset: Focus');
+        expect(commands['start-preset-a'].checkCallback?.(true)).toBe(true);
+        expect(commands['start-preset-b'].checkCallback?.(true)).toBe(false);
+    });
+});
@@ -0,0 +1,33 @@
+import type { App as ObsidianApp, PluginManifest } from 'obsidian';
+import SolidTimePlugin from '../main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { App } from './obsidianStub';
+
+describe('loadSettings', () => {
+    test('keeps remembered member IDs out of the shared defaults', async () => {
+        const plugin = new SolidTimePlugin(new App() as unknown as ObsidianApp, {} as PluginManifest);
+        await plugin.loadSettings();
+        plugin.currentUser = { id: 'user-1', name: 'Ada', email: 'ada@example.com', profile_photo_url: '', timezone: 'UTC', week_start: 'monday' };
+
+        await plugin.rememberMemberId('org-1', 'user-1', 'member-1');
+        await plugin.forgetMemberId('org-1');
+        await plugin.rememberMemberId('org-2', 'user-1', 'member-2');
+
+        expect(DEFAULT_SETTINGS.memberIds).toEqual({});
+        const fresh = new SolidTimePlugin(new App() as unknown as ObsidianApp, {} as PluginManifest);
+        await fresh.loadSettings();
+        expect(fresh.settings.memberIds).toEqual({});
+    });
+
+    test('copies the persisted member IDs', async () => {
+        const plugin = new SolidTimePlugin(new App() as unknown as ObsidianApp, {} as PluginManifest);
+        const saved = { memberIds: { 'org-1': { 'user-1': 'member-1' } } };
+        await plugin.saveData(saved);
+        await plugin.loadSettings();
+
+        await plugin.rememberMemberId('org-1', 'user-2', 'member-2');
+
+        expect(plugin.settings.memberIds['org-1']).toEqual({ 'user-1': 'member-1', 'user-2': 'member-2' });
+        expect(saved.memberIds['org-1']).toEqual({ 'user-1': 'member-1' });
+    });
+});
@@ -0,0 +1,232 @@
+import { TIMER_STARTED_EVENT, TIMER_STOPPED_EVENT, TIMER_UPDATED_EVENT } from '../src/publicApi';
+import { App, notices } from './obsidianStub';
+import { createTestPlugin as setup } from './pluginHarness';
+
+// The plugin's timer flows against FakeSolidTimeServer: real SolidTimeApi, real request payloads
+
+const timerOptions = { description: 'Writing', projectId: null, taskId: null, tagIds: [], billable: false };
+
+const eventNames = (app: App) => app.workspace.triggered.map(event => event.name);
+
+describe('startTimer', () => {
+    test('starts an entry on the server for the current member', async () => {
+        const { server, plugin, app, userId, orgId } = await setup();
+        const project = server.seedProject(orgId, 'Client X', { is_billable: true });
+
+        const entry = await plugin.startTimer({ ...timerOptions, projectId: project.id, billable: true });
+
+        expect(entry).not.toBeNull();
+        expect(server.timeEntries).toHaveLength(1);
+        expect(server.timeEntries[0]).toMatchObject({ user_id: userId, end: null, project_id: project.id, description: 'Writing', billable: true });
+        expect(plugin.activeTimeEntry?.id).toBe(server.timeEntries[0].id);
+        expect(eventNames(app)).toEqual([TIMER_STARTED_EVENT]);
+    });
+
+    test('refuses to start a second timer', async () => {
+        const { server, plugin } = await setup();
+        await plugin.startTimer(timerOptions);
+
+        expect(await plugin.startTimer(timerOptions)).toBeNull();
+        expect(server.timeEntries).toHaveLength(1);
+    });
+
+    test('looks the member ID up again when the cached one is rejected with a 422', async () => {
+        const { server, plugin, userId, orgId, memberId } = await setup();
+        plugin.currentUser = server.users[0];
+        plugin.settings.memberIds = { [orgId]: { [userId]: 'member-stale' } };
+
+        const entry = await plugin.startTimer(timerOptions);
+
+        expect(entry).not.toBeNull();
+        const starts = server.requests.filter(request => request.method === 'POST' && request.path.endsWith('/time-entries'));
+        expect(starts.map(request => (request.body as { member_id: string }).member_id)).toEqual(['member-stale', memberId]);
+        expect(plugin.settings.memberIds[orgId][userId]).toBe(memberId);
+    });
+
+    test('queues the start locally while SolidTime is unreachable and sends it later', async () => {
+        const { server, plugin } = await setup();
+        await plugin.getMemberIdForOrg(plugin.settings.selectedOrganizationId); // Known before going offline
+        server.failNext('network');
+
+        const entry = await plugin.startTimer(timerOptions);
+
+        expect(entry).not.toBeNull();
+        expect(server.timeEntries).toHaveLength(0);
+        expect(plugin.offlineQueue.pendingCount).toBe(1);
+
+        await plugin.updateStatus();
+
+        expect(plugin.offlineQueue.pendingCount).toBe(0);
+        expect(server.timeEntries).toHaveLength(1);
+        expect(server.timeEntries[0].start).toBe(entry?.start);
+        expect(plugin.activeTimeEntry?.id).toBe(server.timeEntries[0].id);
+    });
+
+    test('keeps a queued start pending while the token is rejected', async () => {
+        const { server, plugin } = await setup();
+        await plugin.getMemberIdForOrg(plugin.settings.selectedOrganizationId);
+        server.failNext('network');
+        await plugin.startTimer(timerOptions);
+        server.failNext(401);
+
+        await plugin.updateStatus();
+
+        expect(plugin.offlineQueue.pendingCount).toBe(1);
+        expect(plugin.offlineQueue.conflictCount).toBe(0);
+        expect(server.timeEntries).toHaveLength(0);
+
+        await plugin.updateStatus();
+
+        expect(plugin.offlineQueue.pendingCount).toBe(0);
+        expect(server.timeEntries).toHaveLength(1);
+    });
+});
+
+describe('stopCurrentTimer', () => {
+    test('ends the running entry on the server', async () => {
+        const { server, plugin, app } = await setup();
+        const started = await plugin.startTimer(timerOptions);
+
+        const stopped = await plugin.stopCurrentTimer();
+
+        expect(stopped?.id).toBe(started?.id);
+        expect(server.timeEntries[0].end).not.toBeNull();
+        expect(server.timeEntries[0].description).toBe('Writing');
+        expect(plugin.activeTimeEntry).toBeNull();
+        expect(eventNames(app)).toEqual([TIMER_STARTED_EVENT, TIMER_STOPPED_EVENT]);
+    });
+
+    test('keeps the timer running if the server refuses the stop', async () => {
+        const { server, plugin, app } = await setup();
+        await plugin.startTimer(timerOptions);
+        server.failNext(403, 1, { path: '/time-entries/' });
+
+        expect(await plugin.stopCurrentTimer()).toBeNull();
+        expect(server.timeEntries[0].end).toBeNull();
+        expect(plugin.activeTimeEntry?.id).toBe(server.timeEntries[0].id);
+        expect(eventNames(app)).not.toContain(TIMER_STOPPED_EVENT);
+    });
+
+    test('tells the user when no timer is running', async () => {
+        const { plugin } = await setup();
+
+        expect(await plugin.stopCurrentTimer()).toBeNull();
+        expect(notices).toContain('SolidTime: No timer is currently running.');
+    });
+});
+
+describe('updateActiveTimerDetails', () => {
+    test('changes only the given fields of the running entry', async () => {
+        const { server, plugin, app, orgId } = await setup();
+        const project = server.seedProject(orgId, 'Client X');
+        const tag = server.seedTag(orgId, 'meeting');
+        await plugin.startTimer({ ...timerOptions, tagIds: [tag.id] });
+
+        await plugin.updateActiveTimerDetails({ description: 'Reviewing', projectId: project.id });
+
+        expect(server.timeEntries[0]).toMatchObject({ description: 'Reviewing', project_id: project.id, tags: [tag.id], end: null });
+        expect(plugin.activeTimeEntry?.description).toBe('Reviewing');
+        expect(eventNames(app)).toEqual([TIMER_STARTED_EVENT, TIMER_UPDATED_EVENT]);
+    });
+
+    test('moves the start of the running entry', async () => {
+        const { server, plugin } = await setup();
+        await plugin.startTimer(timerOptions);
+
+        await plugin.updateActiveTimerDetails({ start: '2024-01-01T08:00:00Z' });
+
+        expect(server.timeEntries[0].start).toBe('2024-01-01T08:00:00Z');
+        expect(server.timeEntries[0].end).toBeNull();
+    });
+
+    test('queues the update while SolidTime is unreachable', async () => {
+        const { server, plugin } = await setup();
+        await plugin.startTimer(timerOptions);
+        server.failNext('network');
+
+        await plugin.updateActiveTimerDetails({ description: 'Offline edit' });
+
+        expect(server.timeEntries[0].description).toBe('Writing');
+        expect(plugin.offlineQueue.pendingCount).toBe(1);
+
+        await plugin.updateStatus();
+
+        expect(server.timeEntries[0].description).toBe('Offline edit');
+        expect(plugin.offlineQueue.pendingCount).toBe(0);
+    });
+});
+
+describe('getRecentTimeEntries', () => {
+    test('only returns the own entries of an organization without a cached member ID', async () => {
+        const { server, plugin, userId } = await setup();
+        const otherOrgId = server.seedOrganization('Client Org');
+        server.seedMember(otherOrgId, userId);
+        const colleague = server.seedUser('Grace', otherOrgId);
+        server.seedTimeEntry(otherOrgId, userId, { start: '2024-01-01T08:00:00Z', end: '2024-01-01T09:00:00Z' });
+        server.seedTimeEntry(otherOrgId, colleague.userId, { start: '2024-01-01T10:00:00Z', end: '2024-01-01T11:00:00Z' });
+
+        const entries = await plugin.getRecentTimeEntries(50, otherOrgId);
+
+        expect(entries.map(entry => entry.user_id)).toEqual([userId]);
+    });
+
+    test('fails instead of listing everyone\'s entries when the member is unknown', async () => {
+        const { server, plugin } = await setup();
+        const foreignOrgId = server.seedUser('Grace').orgId;
+        server.seedTimeEntry(foreignOrgId, server.users[1].id, { start: '2024-01-01T10:00:00Z', end: '2024-01-01T11:00:00Z' });
+
+        await expect(plugin.getRecentTimeEntries(50, foreignOrgId)).rejects.toThrow();
+        expect(server.requests.filter(request => request.path.endsWith('/time-entries'))).toHaveLength(0);
+    });
+});
+
+describe('splitIdleTime', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    test('books the idle time in the organization of the running timer', async () => {
+        const { server, plugin, userId } = await setup();
+        const otherOrgId = server.seedOrganization('Client Org');
+        server.seedMember(otherOrgId, userId);
+        plugin.currentUser = server.users[0];
+        await plugin.loadMemberships();
+        const [start, idleStart, idleEnd] = [minutesAgo(60), minutesAgo(40), minutesAgo(10)];
+        const entry = await plugin.startTimer({ ...timerOptions, organizationId: otherOrgId, start: start });
+        if (!entry) throw new Error('Timer did not start');
+
+        await plugin.splitIdleTime(entry, idleStart, idleEnd, null, 'Meeting');
+
+        expect(server.timeEntries).toHaveLength(3);
+        expect(server.timeEntries.every(timeEntry => timeEntry.organization_id === otherOrgId)).toBe(true);
+        expect(server.timeEntries.find(timeEntry => timeEntry.description === 'Meeting')).toMatchObject({ start: idleStart, end: idleEnd, project_id: null });
+        expect(plugin.activeTimeEntry).toMatchObject({ organization_id: otherOrgId, start: idleEnd, description: 'Writing' });
+    });
+});
+
+describe('updateStatus', () => {
+    test('reports a timer stopped in SolidTime itself', async () => {
+        const { server, plugin, app } = await setup();
+        await plugin.startTimer(timerOptions);
+        server.timeEntries[0].end = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+        await plugin.updateStatus();
+
+        expect(plugin.activeTimeEntry).toBeNull();
+        expect(eventNames(app)).toEqual([TIMER_STARTED_EVENT, TIMER_STOPPED_EVENT]);
+    });
+
+    test('keeps the last known timer through a failed poll without timer events', async () => {
+        const { server, plugin, app } = await setup();
+        await plugin.startTimer(timerOptions);
+        server.failNext(401, 1, { path: '/active' });
+
+        await plugin.updateStatus();
+
+        expect(plugin.activeTimeEntry?.id).toBe(server.timeEntries[0].id);
+        expect(plugin.connectionIssue).toBe('Auth error');
+
+        await plugin.updateStatus();
+
+        expect(plugin.connectionIssue).toBeNull();
+        expect(eventNames(app)).toEqual([TIMER_STARTED_EVENT]);
+    });
+});